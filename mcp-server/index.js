@@ -14,15 +14,16 @@ import {
   ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { execSync, spawn } from "child_process";
-import { readFileSync, readdirSync, statSync, existsSync } from "fs";
-import { join, relative } from "path";
+import { readFileSync, readdirSync, statSync, existsSync, realpathSync } from "fs";
+import { join, relative, resolve, isAbsolute, dirname } from "path";
+import { fileURLToPath } from "url";
 import crypto from "crypto";
 
 // ============================================
 // APPROVAL TOKEN MANAGEMENT
 // ============================================
-const pendingApprovals = new Map(); // request_id -> { action, reason, command, timestamp }
-const activeTokens = new Map();     // token -> { request_id, expires }
+const pendingApprovals = new Map(); // request_id -> { action, reason, command, cwd, timestamp }
+const activeTokens = new Map();     // token -> { requestId, fingerprint, expires }
 
 function generateRequestId() {
   return `req_${crypto.randomBytes(8).toString("hex")}`;
@@ -32,12 +33,24 @@ function generateToken() {
   return `tok_${crypto.randomBytes(16).toString("hex")}`;
 }
 
-function createApprovalRequest(action, reason, command) {
+// Actions a token can be requested for; each must match what the executing tool checks
+const APPROVABLE_ACTIONS = ["terminal_run"];
+
+// Hash of exactly what the user approved (action + command + cwd)
+function approvalFingerprint(action, command, cwd) {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify([action, command, cwd || ""]))
+    .digest("hex");
+}
+
+function createApprovalRequest(action, reason, command, cwd) {
   const requestId = generateRequestId();
   pendingApprovals.set(requestId, {
     action,
     reason,
     command,
+    cwd,
     timestamp: Date.now(),
   });
   // Auto-expire after 5 minutes
@@ -54,7 +67,7 @@ function grantApproval(requestId) {
   const token = generateToken();
   activeTokens.set(token, {
     requestId,
-    command: pending.command,
+    fingerprint: approvalFingerprint(pending.action, pending.command, pending.cwd),
     expires: Date.now() + 60 * 1000, // 1 minute validity
   });
   
@@ -62,20 +75,71 @@ function grantApproval(requestId) {
   return token;
 }
 
-function validateToken(token) {
+function denyApproval(requestId, reason) {
+  const pending = pendingApprovals.get(requestId);
+  if (!pending) {
+    throw new Error("Invalid or expired approval request");
+  }
+  pendingApprovals.delete(requestId);
+  return { action: pending.action, command: pending.command, reason: reason?.trim() || undefined };
+}
+
+function validateToken(token, { action, command, cwd }) {
   const tokenData = activeTokens.get(token);
   if (!tokenData) {
     throw new Error("⛔ PERMISSION DENIED: Invalid approval token");
   }
+  // One-time use, even if the checks below fail
+  activeTokens.delete(token);
   if (Date.now() > tokenData.expires) {
-    activeTokens.delete(token);
     throw new Error("⛔ PERMISSION DENIED: Approval token expired");
   }
-  // One-time use
-  activeTokens.delete(token);
+  const expected = Buffer.from(tokenData.fingerprint, "hex");
+  const actual = Buffer.from(approvalFingerprint(action, command, cwd), "hex");
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    throw new Error("⛔ PERMISSION DENIED: Approval token does not match the approved action, command or cwd");
+  }
   return tokenData;
 }
 
+// ============================================
+// WORKSPACE CONFINEMENT
+// ============================================
+// Mirrors web/lib/workspace.ts: WORKSPACE_ROOT, else the repo root above this server.
+const WORKSPACE_ROOT = realpathSync(
+  process.env.WORKSPACE_ROOT?.trim()
+    ? resolve(process.env.WORKSPACE_ROOT)
+    : resolve(dirname(fileURLToPath(import.meta.url)), "..")
+);
+
+function isOutsideWorkspace(absolutePath) {
+  const rel = relative(WORKSPACE_ROOT, absolutePath);
+  if (!rel) return false;
+  if (isAbsolute(rel)) return true;
+  const normalized = rel.replace(/\\/g, "/");
+  return normalized === ".." || normalized.startsWith("../");
+}
+
+// Resolve a working directory (relative to the workspace, or absolute inside it)
+// to its real path, rejecting anything outside the workspace or escaping via symlinks.
+function resolveWorkingDirectory(cwd) {
+  const candidate = cwd && cwd.trim() ? resolve(WORKSPACE_ROOT, cwd.trim()) : WORKSPACE_ROOT;
+  if (isOutsideWorkspace(candidate)) {
+    throw new Error(`⛔ PERMISSION DENIED: Working directory "${cwd}" is outside the workspace root`);
+  }
+  let real;
+  try {
+    real = realpathSync(candidate);
+  } catch (err) {
+    if (err?.code === "ENOENT") throw new Error(`Working directory "${cwd}" does not exist inside the workspace`);
+    throw err;
+  }
+  if (isOutsideWorkspace(real)) {
+    throw new Error(`⛔ PERMISSION DENIED: Working directory "${cwd}" resolves outside the workspace root (possible symlink escape)`);
+  }
+  return real;
+}
+
 // ============================================
 // FILESYSTEM HELPERS
 // ============================================
@@ -162,9 +226,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            action: { type: "string", description: "Type of action (run_command, apply_patch, etc)" },
+            action: {
+              type: "string",
+              enum: APPROVABLE_ACTIONS,
+              description: "Tool the approval is for; the token only validates for this action (terminal_run)",
+            },
             reason: { type: "string", description: "Why this action is needed" },
             command: { type: "string", description: "The actual command or patch to execute" },
+            cwd: { type: "string", description: "Working directory the command will run in" },
           },
           required: ["action", "reason", "command"],
         },
@@ -180,6 +249,18 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ["request_id"],
         },
       },
+      {
+        name: "approval_deny",
+        description: "CALLED BY HOST ONLY. Denies a pending request so it can no longer be granted.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            request_id: { type: "string", description: "The approval request ID" },
+            reason: { type: "string", description: "Optional reason given by the user" },
+          },
+          required: ["request_id"],
+        },
+      },
       {
         name: "terminal_run",
         description: "Execute a terminal command. REQUIRES a valid approval_token for safety.",
@@ -187,7 +268,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           type: "object",
           properties: {
             command: { type: "string", description: "The command to execute" },
-            cwd: { type: "string", description: "Working directory" },
+            cwd: { type: "string", description: "Workspace-relative working directory (default: workspace root)" },
             approval_token: { type: "string", description: "One-time approval token from approval_grant" },
           },
           required: ["command", "approval_token"],
@@ -245,10 +326,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case "approval_request": {
+        if (!APPROVABLE_ACTIONS.includes(args.action)) {
+          throw new Error(`Unknown action "${args.action}"; expected one of: ${APPROVABLE_ACTIONS.join(", ")}`);
+        }
         const requestId = createApprovalRequest(
           args.action,
           args.reason,
-          args.command
+          args.command,
+          resolveWorkingDirectory(args.cwd)
         );
         return {
           content: [
@@ -280,11 +365,31 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "approval_deny": {
+        const denial = denyApproval(args.request_id, args.reason);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                status: "denied",
+                request_id: args.request_id,
+                ...denial,
+              }),
+            },
+          ],
+        };
+      }
+
       case "terminal_run": {
-        // SECURITY: Validate token before execution
-        validateToken(args.approval_token);
-        
-        const cwd = args.cwd || process.cwd();
+        // SECURITY: Confine cwd and validate token before execution
+        const cwd = resolveWorkingDirectory(args.cwd);
+        validateToken(args.approval_token, {
+          action: "terminal_run",
+          command: args.command,
+          cwd,
+        });
+
         const result = execSync(args.command, {
           cwd,
           encoding: "utf-8",
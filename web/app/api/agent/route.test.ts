@@ -0,0 +1,137 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { NextRequest } from "next/server";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { ScriptedTurn } from "@/lib/mock-provider";
+
+// The workspace root is fixed when lib/workspace loads, so point it at a scratch directory first
+const workspace = mkdtempSync(join(tmpdir(), "vibe-agent-"));
+process.env.WORKSPACE_ROOT = workspace;
+
+let route: typeof import("./route");
+let sessions: typeof import("@/lib/session-store");
+let mock: typeof import("@/lib/mock-provider");
+let tools: typeof import("@/lib/mcp-tools");
+
+beforeAll(async () => {
+  writeFileSync(join(workspace, "README.md"), "# Fixture\n");
+  writeFileSync(join(workspace, "big.txt"), `${"x".repeat(100)}\n`.repeat(300));
+  route = await import("./route");
+  sessions = await import("@/lib/session-store");
+  mock = await import("@/lib/mock-provider");
+  tools = await import("@/lib/mcp-tools");
+});
+
+afterEach(() => {
+  delete process.env.VIBE_MOCK_CASSETTE;
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  rmSync(workspace, { recursive: true, force: true });
+});
+
+/** Answer with `turns` from a registered mock script and send one message to the agent. */
+async function runAgent(name: string, turns: ScriptedTurn[]) {
+  mock.registerMockScript(name, turns);
+  process.env.VIBE_MOCK_CASSETTE = `script:${name}`;
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  return sendMessage({ message: "go" });
+}
+
+/** Send a message to the agent, continuing the script already in use. */
+async function sendMessage(body: Record<string, unknown>) {
+  const response = await route.POST(new NextRequest("http://localhost/api/agent", { method: "POST", body: JSON.stringify(body) }));
+  return { status: response.status, body: await response.json() };
+}
+
+const listFiles = { name: "list_workspace_files", args: {} };
+
+describe("agent tool loop", () => {
+  it("run tool calls and return the final reply with their components", async () => {
+    const { status, body } = await runAgent("basic", [{ functionCalls: [listFiles] }, { text: "Here it is." }]);
+    expect(status).toBe(200);
+    expect(body.content).toBe("Here it is.");
+    expect(body.components.map((c: { type: string }) => c.type)).toEqual(["workspace_tree"]);
+  });
+
+  it("stop after the maximum number of tool steps", async () => {
+    const turns = Array.from({ length: 7 }, (_, i) => ({ text: `step ${i}`, functionCalls: [listFiles] }));
+    const { body } = await runAgent("step-limit", turns);
+    expect(body.content).toMatch(/^Note: reached the maximum of 6 tool steps/);
+    expect(body.content).toContain("step 6");
+    expect(body.components).toHaveLength(6);
+  });
+
+  it("continue a session whose last turn stopped at the step limit without text", async () => {
+    const turns = [...Array.from({ length: 7 }, () => ({ functionCalls: [listFiles] })), { text: "Still here." }];
+    const first = await runAgent("step-limit-silent", turns);
+    const second = await sendMessage({ message: "go on", session_id: first.body.session_id });
+    expect(second.status).toBe(200);
+    expect(second.body.content).toBe("Still here.");
+
+    const history = sessions.toHistory((await sessions.getSession(first.body.session_id))!);
+    const emptyReplies = history.filter((m) => m.role === "assistant" && !m.content && !m.functionCalls?.length);
+    expect(emptyReplies).toEqual([]);
+  });
+
+  it("report what approved requests did on the next turn", async () => {
+    const first = await runAgent("approved", [
+      {
+        functionCalls: [
+          { name: "execute_command", args: { command: "echo approved-run", reason: "check" } },
+          { name: "write_file", args: { path: "notes.txt", content: "hello\n", reason: "take notes" } },
+        ],
+      },
+      { text: "Waiting." },
+      { text: "Done." },
+    ]);
+    const [command, write] = first.body.components.map((c: { props: { request_id: string } }) => c.props.request_id);
+    const { approval_token: commandToken } = await tools.grantApproval(command);
+    await tools.runTerminal("echo approved-run", commandToken, workspace);
+    const { approval_token: writeToken } = await tools.grantApproval(write);
+    await tools.applyFileWrite(write, writeToken);
+
+    await sendMessage({ message: "both approved", session_id: first.body.session_id });
+    const results = sessions
+      .toHistory((await sessions.getSession(first.body.session_id))!)
+      .flatMap((m) => (m.role === "tool" ? m.results.map((r) => r.result) : []));
+    expect(results).toEqual([
+      expect.objectContaining({ status: "executed", exit_code: 0, output: expect.stringContaining("approved-run") }),
+      expect.objectContaining({ status: "written", written: true, path: "notes.txt" }),
+    ]);
+  });
+
+  it("answer a call with malformed arguments with an error and run the calls beside it", async () => {
+    const { body } = await runAgent("malformed-args", [
+      { functionCalls: [listFiles, { name: "read_file", args: {}, argsError: "Arguments are not valid JSON (Unexpected end of JSON input)." }] },
+      { text: "Retrying." },
+    ]);
+    expect(body.content).toBe("Retrying.");
+    const results = sessions
+      .toHistory((await sessions.getSession(body.session_id))!)
+      .flatMap((m) => (m.role === "tool" ? m.results : []));
+    expect(results).toHaveLength(2);
+    expect(results[0].result).not.toHaveProperty("error");
+    expect(results[1]).toEqual(
+      expect.objectContaining({ name: "read_file", result: { error: expect.stringMatching(/^Arguments are not valid JSON/) } })
+    );
+  });
+
+  it("stop when the reply reaches the character limit", async () => {
+    const { body } = await runAgent("char-limit", [{ text: "y".repeat(30_000), functionCalls: [listFiles] }]);
+    expect(body.content).toMatch(/^Note: response reached the 30000 character limit\./);
+    expect(body.content.length).toBeLessThanOrEqual(30_000);
+    expect(body.components).toEqual([]);
+  });
+
+  it("note when a file was read in pages", async () => {
+    const { body } = await runAgent("paged", [
+      { functionCalls: [{ name: "read_file", args: { path: "big.txt" } }] },
+      { text: "That was the first page." },
+    ]);
+    expect(body.content).toMatch(/^Note: large files are read in pages of up to 20000 characters\./);
+    expect(body.content).toContain("That was the first page.");
+  });
+});
@@ -4,172 +4,212 @@
  * Orchestrates the conversation flow:
  * 1. Receives user message
  * 2. Calls the best available AI provider (OpenAI, Anthropic, Gemini, Grok)
- * 3. Handles tool calls (workspace browse, file read, command exec, git)
+ * 3. Handles tool calls (workspace browse, file read, code search, command exec, git)
  * 4. Returns response with rendered components
+ *
+ * When the client passes a `stream_id`, text (token by token), tool-call progress
+ * and components are also published to /api/stream as they happen, tagged with
+ * `turn_id`.
+ *
+ * Conversations are stored server-side (see lib/session-store); the client
+ * sends only `session_id` and the new message, and provider history - including
+ * earlier tool calls and their results - is rebuilt from the transcript.
+ *
+ * Each response carries token usage and estimated cost for the request and
+ * the whole session, broken down by provider/model.
+ *
+ * If the provider fails mid tool loop, the turn's transcript (tool calls and
+ * results included) is replayed on the next configured provider, which picks
+ * up at the same step; `failovers` in the response lists each switch.
+ *
+ * History that would overflow the provider's context window is condensed for
+ * the request (see lib/context-budget); `context` in the response and a note
+ * in the reply say what was summarized or elided.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { basename, resolve, isAbsolute, normalize, relative } from "path";
-import { realpathSync, existsSync } from "fs";
+import { existsSync } from "fs";
+import { z } from "zod";
 
 // Allow up to 60s on Vercel (requires Pro plan for >10s; free tier caps at 10s)
 export const maxDuration = 60;
 import {
   createChatWithFallback,
+  describeProviderError,
+  resumeChatWithFallback,
+  selectProviders,
+  type AIChat,
+  type FunctionCallRequest,
+  type HistoryMessage,
+  type ModelTurn,
   type ToolDef,
   type FunctionResult,
 } from "@/lib/ai-providers";
 import {
   workspaceList,
   workspaceRead,
+  workspaceReadFile,
+  type WorkspaceFile,
   requestApproval,
+  proposeFileWrite,
+  applyFileWrite,
+  runTerminal,
+  takeDenial,
+  takeApprovalOutcome,
   gitStatus,
+  type ApprovalOutcome,
+  type DeniedApproval,
   gitDiff,
 } from "@/lib/mcp-tools";
-
-// ---------------------------------------------------------------------------
-// Workspace helpers
-// ---------------------------------------------------------------------------
-
-function detectWorkspaceRoot(): string {
-  const override = process.env.WORKSPACE_ROOT;
-  if (override && override.trim()) return resolve(override);
-  const cwd = process.cwd();
-  if (process.env.NODE_ENV !== "production" && basename(cwd) === "web") {
-    return resolve(cwd, "..");
-  }
-  return cwd;
-}
-
-const DEFAULT_WORKSPACE = detectWorkspaceRoot();
-
-// On Vercel / serverless, the workspace may not exist. Detect this gracefully.
-const WORKSPACE_EXISTS = existsSync(DEFAULT_WORKSPACE);
-const WORKSPACE_ROOT_REAL = WORKSPACE_EXISTS
-  ? normalize(realpathSync(resolve(DEFAULT_WORKSPACE)))
-  : normalize(resolve(DEFAULT_WORKSPACE));
-
-console.log(`[agent] Workspace root: ${DEFAULT_WORKSPACE} (exists: ${WORKSPACE_EXISTS})`);
-
-function isOutsideWorkspace(absolutePath: string): boolean {
-  const rel = relative(WORKSPACE_ROOT_REAL, normalize(absolutePath));
-  if (!rel) return false;
-  if (isAbsolute(rel)) return true;
-  const normalized = rel.replace(/\\/g, "/");
-  return normalized === ".." || normalized.startsWith("../");
-}
-
-function toWorkspaceRelativePath(absolutePath: string): string {
-  return relative(WORKSPACE_ROOT_REAL, absolutePath) || ".";
-}
-
-function resolveWorkspacePath(
-  maybePath: unknown,
-  { allowDefaultRoot = true }: { allowDefaultRoot?: boolean } = {}
-): string {
-  if (typeof maybePath !== "string" || !maybePath.trim()) {
-    if (!allowDefaultRoot) throw new Error("A non-empty workspace-relative path is required.");
-    return WORKSPACE_ROOT_REAL;
-  }
-  const inputPath = maybePath.trim();
-  if (inputPath === "." || inputPath === "./" || inputPath === ".\\") {
-    if (!allowDefaultRoot) throw new Error("A non-empty workspace-relative path is required.");
-    return WORKSPACE_ROOT_REAL;
-  }
-  const segments = inputPath.split(/[/\\]+/);
-  if (segments.includes("..")) {
-    throw new Error("Parent directory references (..) are not allowed in workspace-relative paths.");
-  }
-  if (isAbsolute(inputPath)) {
-    throw new Error("Absolute paths are not allowed. Use a path relative to the workspace root instead.");
-  }
-  const candidate = resolve(WORKSPACE_ROOT_REAL, inputPath);
-  if (isOutsideWorkspace(candidate)) {
-    throw new Error(`Path "${inputPath}" is outside the workspace root.`);
-  }
-  let resolvedPath: string;
-  try {
-    resolvedPath = realpathSync(candidate);
-  } catch (err: any) {
-    if (err?.code === "ENOENT") throw new Error(`Path "${inputPath}" does not exist inside the workspace.`);
-    throw err;
-  }
-  if (isOutsideWorkspace(resolvedPath)) {
-    throw new Error(`Path "${inputPath}" resolves outside the workspace root (possible symlink escape).`);
-  }
-  return resolvedPath;
-}
+import { publish, type StreamEvent, type TurnEvent } from "@/lib/event-stream";
+import {
+  WORKSPACE_EXISTS,
+  resolveWorkspacePath,
+  resolveWorkspaceWritePath,
+  toWorkspaceRelativePath,
+} from "@/lib/workspace";
+import { applyHunks, diffLines, parseUnifiedDiff, splitLines } from "@/lib/diff";
+import {
+  appendEntries,
+  createSession,
+  getSession,
+  pendingApprovalIds,
+  sessionUsage,
+  toHistory,
+  updateApprovalResult,
+  type SessionStep,
+} from "@/lib/session-store";
+import { emptyReport, recordUsage } from "@/lib/usage";
+import { defineTool, validateToolArgs } from "@/lib/tool-schema";
+import { searchCode } from "@/lib/code-search";
+import { findDefinition, getOutline } from "@/lib/code-symbols";
+import { languageForPath } from "@/lib/languages";
+import { contextBudget, estimateRequestTokens, type ContextReport } from "@/lib/context-budget";
 
 // ---------------------------------------------------------------------------
 // Tool definitions (provider-agnostic)
 // ---------------------------------------------------------------------------
 
+// Page size of read_file (and the tail kept of command output)
+const MAX_FILE_CHARS_FOR_MODEL = 20_000;
+
 const tools: ToolDef[] = [
-  {
-    name: "list_workspace_files",
-    description:
-      "List files and directories in the workspace. Use this when user asks to see project structure, files, or folder contents.",
-    parameters: {
-      type: "object",
-      properties: {
-        path: {
-          type: "string",
-          description: "Workspace-relative directory path to list (e.g. `web/app`). Default is the workspace root.",
-        },
-        depth: { type: "number", description: "Depth to traverse (default: 2)" },
-      },
-      required: [],
-    },
-  },
-  {
-    name: "read_file",
-    description: "Read the contents of a file. Use this when user asks to see code, config, or any file content.",
-    parameters: {
-      type: "object",
-      properties: {
-        path: {
-          type: "string",
-          description: "Workspace-relative file path to read (e.g. `web/app/page.tsx`)",
-        },
-      },
-      required: ["path"],
-    },
-  },
-  {
-    name: "execute_command",
-    description: "Execute a terminal command (npm test, npm run build, etc). This requires user approval first.",
-    parameters: {
-      type: "object",
-      properties: {
-        command: { type: "string", description: "Command to execute" },
-        reason: { type: "string", description: "Why this command is needed" },
-        cwd: { type: "string", description: "Workspace-relative working directory (optional)" },
-      },
-      required: ["command", "reason"],
-    },
-  },
-  {
-    name: "get_git_status",
-    description: "Get git status of the repository",
-    parameters: {
-      type: "object",
-      properties: {
-        cwd: { type: "string", description: "Workspace-relative path (optional)" },
-      },
-      required: [],
-    },
-  },
-  {
-    name: "get_git_diff",
-    description: "Get git diff of uncommitted changes",
-    parameters: {
-      type: "object",
-      properties: {
-        cwd: { type: "string", description: "Workspace-relative path (optional)" },
-      },
-      required: [],
-    },
-  },
+  defineTool(
+    "list_workspace_files",
+    "List files and directories in the workspace. Use this when user asks to see project structure, files, or folder contents. " +
+      "Entries ignored by .gitignore (and build output like node_modules or dist) are left out. Directories report childCount; " +
+      "large directories list only some children (truncated: true) - list that directory itself to see the rest. " +
+      "When the response has next_offset, call again with offset set to it for the next page.",
+    z.object({
+      path: z
+        .string()
+        .optional()
+        .describe("Workspace-relative directory path to list (e.g. `web/app`). Default is the workspace root."),
+      depth: z.number().int().min(1).optional().describe("Depth to traverse (default: 2)"),
+      offset: z.number().int().min(0).default(0).describe("Index of the first top-level entry to list, for paging"),
+      limit: z.number().int().min(1).max(500).default(200).describe("Maximum number of top-level entries to list"),
+    })
+  ),
+  defineTool(
+    "read_file",
+    "Read the contents of a file, or a range of its lines. Use this when user asks to see code, config, or any file content. " +
+      `Returns at most ${MAX_FILE_CHARS_FOR_MODEL} characters of whole lines plus total_lines; when truncated is true, call again ` +
+      "with start_line set to next_start_line to read the next page. To look at a specific place (e.g. a search_code hit), " +
+      "pass start_line and end_line instead of reading the whole file. The response's kind says what was found: text; " +
+      "large_text (only the beginning and end, or the requested lines, of a very large file); image (metadata only, the user " +
+      "sees a preview); or binary (format, size and a hex preview of the first bytes).",
+    z.object({
+      path: z.string().min(1).describe("Workspace-relative file path to read (e.g. `web/app/page.tsx`)"),
+      start_line: z.number().int().min(1).optional().describe("First line to read, 1-based (default: 1)"),
+      end_line: z.number().int().min(1).optional().describe("Last line to read, inclusive (default: end of file)"),
+    })
+  ),
+  defineTool(
+    "search_code",
+    "Search file contents across the workspace for a literal string or regular expression. Use this to find where something is defined or used instead of listing directories and reading whole files.",
+    z.object({
+      query: z.string().min(1).describe("Text to search for (a regular expression when `regex` is true)"),
+      regex: z
+        .boolean()
+        .default(false)
+        .describe("Treat the query as a JavaScript regular expression; a pattern that backtracks past the time limit ends the search early"),
+      case_sensitive: z.boolean().default(false).describe("Match case exactly"),
+      path: z.string().optional().describe("Workspace-relative directory or file to search (default: the workspace root)"),
+      include: z
+        .array(z.string())
+        .optional()
+        .describe("Only search files matching any of these globs, e.g. `**/*.ts` or `*.tsx` (globs without `/` match file names)"),
+      exclude: z.array(z.string()).optional().describe("Skip files matching any of these globs"),
+      context_lines: z.number().int().min(0).max(5).default(2).describe("Lines of context before and after each match"),
+      max_results: z.number().int().min(1).max(200).default(50).describe("Maximum number of matches to return"),
+    })
+  ),
+  defineTool(
+    "get_symbols",
+    "Outline a TypeScript or JavaScript file: its functions, classes (with members), interfaces, types, enums, variables " +
+      "and re-exports, each with its line range and whether it is exported. Use this to answer what a module exports or " +
+      "to find the lines to read instead of reading the whole file.",
+    z.object({
+      path: z.string().min(1).describe("Workspace-relative path of a .ts, .tsx, .js, .jsx, .mts, .cts, .mjs or .cjs file"),
+    })
+  ),
+  defineTool(
+    "find_definition",
+    "Find where a TypeScript or JavaScript symbol is defined and every place it is referenced, using the TypeScript compiler. " +
+      "More precise than search_code for identifiers: it follows imports and ignores comments, strings and unrelated names.",
+    z.object({
+      symbol: z.string().min(1).describe("Identifier to look up, e.g. `searchCode` or `SessionStore`"),
+      path: z
+        .string()
+        .optional()
+        .describe("Workspace-relative file where the symbol is used; resolves it the way that file sees it (e.g. through its imports)"),
+      line: z.number().int().min(1).optional().describe("Line in `path` where the symbol is used, to pick one occurrence"),
+    })
+  ),
+  defineTool(
+    "execute_command",
+    "Execute a terminal command (npm test, npm run build, etc). This requires user approval first.",
+    z.object({
+      command: z.string().min(1).describe("Command to execute"),
+      reason: z.string().describe("Why this command is needed"),
+      cwd: z.string().optional().describe("Workspace-relative working directory (optional)"),
+    })
+  ),
+  defineTool(
+    "apply_patch",
+    "Propose an edit to an existing file as a unified diff. The user reviews the diff and must approve it before it is written. Read the file first so context lines match exactly.",
+    z.object({
+      path: z.string().min(1).describe("Workspace-relative path of the file to patch"),
+      patch: z
+        .string()
+        .min(1)
+        .describe("Unified diff for this one file, with @@ -old,+new @@ hunk headers and 3 lines of context"),
+      reason: z.string().describe("What the change does and why"),
+    })
+  ),
+  defineTool(
+    "write_file",
+    "Propose creating a file or replacing its entire contents. The user reviews the resulting diff and must approve it before it is written. Prefer apply_patch for small edits to large files.",
+    z.object({
+      path: z.string().min(1).describe("Workspace-relative path of the file to create or overwrite"),
+      content: z.string().describe("The complete new file contents"),
+      reason: z.string().describe("What the change does and why"),
+    })
+  ),
+  defineTool(
+    "get_git_status",
+    "Get git status of the repository",
+    z.object({
+      cwd: z.string().optional().describe("Workspace-relative path (optional)"),
+    })
+  ),
+  defineTool(
+    "get_git_diff",
+    "Get git diff of uncommitted changes",
+    z.object({
+      cwd: z.string().optional().describe("Workspace-relative path (optional)"),
+    })
+  ),
 ];
 
 // ---------------------------------------------------------------------------
@@ -182,8 +222,11 @@ const SYSTEM_PROMPT = WORKSPACE_EXISTS
 IMPORTANT RULES:
 1. When users ask about project structure, files, or folders - call list_workspace_files
 2. When users ask to see/read a file - call read_file with a workspace-relative path
+   To find where something is defined or used, call search_code first and read only the files it points to
+   For TypeScript/JavaScript, get_symbols outlines a file and what it exports, and find_definition lists every reference to an identifier
 3. When users ask to run commands (tests, builds, etc) - call execute_command (requires approval)
 4. When users ask about git status or changes - call get_git_status or get_git_diff
+5. When users ask you to change code - call apply_patch (unified diff) or write_file (full contents); the user approves the diff before anything is written
 
 The current workspace root is the project directory (all tool paths are relative to it).
 
@@ -213,64 +256,381 @@ interface ToolCall {
   args: Record<string, any>;
 }
 
+interface ToolOutcome {
+  modelResponse: object;
+  component?: UIComponent;
+}
+
 interface UIComponent {
   type: string;
   props: Record<string, any>;
 }
 
 const MAX_TOOL_STEPS = 6;
-const MAX_FILE_CHARS_FOR_MODEL = 20_000;
 const MAX_RESPONSE_CHARS = 30_000;
 const MODEL_TEXT_SEPARATOR = "\n\n";
+// Tools that end the loop when they leave a request pending on a user decision
+const APPROVAL_TOOLS = new Set(["execute_command", "apply_patch", "write_file"]);
+// Policy auto-approved commands run inside the request, so keep them short
+const AUTO_APPROVED_TIMEOUT_MS = 30_000;
 
-async function handleToolCall(
-  toolCall: ToolCall
-): Promise<{ modelResponse: object; component?: UIComponent }> {
+/**
+ * Whole lines `startLine..endLine` (1-based, inclusive) of `content`, cut off
+ * before `maxChars`; `truncated` means the requested range didn't fit.
+ */
+function pageLines(content: string, startLine = 1, endLine: number | undefined, maxChars: number) {
+  const lines = splitLines(content);
+  const totalLines = lines.length;
+  if (startLine > Math.max(totalLines, 1)) {
+    throw new Error(`start_line ${startLine} is past the end of the file (${totalLines} lines).`);
+  }
+  if (endLine !== undefined && endLine < startLine) {
+    throw new Error(`end_line ${endLine} is before start_line ${startLine}.`);
+  }
+  const last = Math.min(endLine ?? totalLines, totalLines);
+  const page: string[] = [];
+  let chars = 0;
+  let end = startLine - 1;
+  for (let i = startLine; i <= last; i++) {
+    const line = lines[i - 1];
+    if (page.length > 0 && chars + line.length + 1 > maxChars) break;
+    // A single over-long line (minified code) is cut rather than skipped
+    page.push(line.length > maxChars ? line.slice(0, maxChars) : line);
+    chars += line.length + 1;
+    end = i;
+  }
+  return { text: page.join("\n"), startLine, endLine: end, totalLines, truncated: end < last };
+}
+
+function formatBytes(size: number): string {
+  if (size >= 1_000_000) return `${(size / 1_000_000).toFixed(1)} MB`;
+  if (size >= 1_000) return `${(size / 1_000).toFixed(1)} KB`;
+  return `${size} bytes`;
+}
+
+/** read_file outcome for files that aren't plain text of a manageable size. */
+function nonTextFileOutcome(modelPath: string, file: Exclude<WorkspaceFile, { kind: "text" }>): ToolOutcome {
+  const preview = { path: modelPath, kind: file.kind, size: file.size };
+  switch (file.kind) {
+    case "image":
+      return {
+        modelResponse: {
+          path: modelPath,
+          kind: "image",
+          format: file.description,
+          mime_type: file.mimeType,
+          size_bytes: file.size,
+          ...(file.width !== undefined ? { width: file.width, height: file.height } : {}),
+          note: "The image is shown to the user; its pixels are not sent to you.",
+        },
+        component: {
+          type: "file_preview",
+          props: { ...preview, mimeType: file.mimeType, description: file.description, width: file.width, height: file.height },
+        },
+      };
+    case "binary":
+      return {
+        modelResponse: {
+          path: modelPath,
+          kind: "binary",
+          format: file.description,
+          ...(file.mimeType ? { mime_type: file.mimeType } : {}),
+          size_bytes: file.size,
+          hex_preview: file.hexPreview,
+          note: "Binary file; it can't be read as text. hex_preview shows its first bytes.",
+        },
+        component: {
+          type: "file_preview",
+          props: { ...preview, mimeType: file.mimeType, description: file.description, hexPreview: file.hexPreview },
+        },
+      };
+    case "large_text":
+      if ("lines" in file) {
+        const { lines } = file;
+        return {
+          modelResponse: {
+            path: modelPath,
+            kind: "large_text",
+            size_bytes: file.size,
+            content: lines.text,
+            start_line: lines.startLine,
+            end_line: lines.endLine,
+            truncated: lines.truncated,
+            ...(lines.more ? { next_start_line: lines.endLine + 1 } : { total_lines: lines.totalLines }),
+          },
+          component: {
+            type: "file_preview",
+            props: {
+              ...preview,
+              sections: [{ label: `Lines ${lines.startLine}-${lines.endLine}`, startLine: lines.startLine, text: lines.text }],
+            },
+          },
+        };
+      }
+      return {
+        modelResponse: {
+          path: modelPath,
+          kind: "large_text",
+          size_bytes: file.size,
+          head: file.head,
+          head_end_line: file.headLines,
+          tail: file.tail,
+          truncated: true,
+          note:
+            `The file is too large to read whole (${formatBytes(file.size)}); head and tail are its beginning and end. ` +
+            "Pass start_line (and end_line) to read other lines, or use search_code to find the part you need.",
+        },
+        component: {
+          type: "file_preview",
+          props: {
+            ...preview,
+            sections: [
+              { label: "Beginning", startLine: 1, text: file.head },
+              { label: "End", text: file.tail },
+            ],
+          },
+        },
+      };
+  }
+}
+
+async function handleToolCall(toolCall: ToolCall): Promise<ToolOutcome> {
   const { name, args } = toolCall;
   try {
     switch (name) {
       case "list_workspace_files": {
         const absolutePath = resolveWorkspacePath(args.path);
         const modelPath = toWorkspaceRelativePath(absolutePath);
-        const tree = await workspaceList(absolutePath, args.depth || 2);
+        const listing = await workspaceList(absolutePath, args.depth || 2, { offset: args.offset, limit: args.limit });
         return {
-          modelResponse: { path: modelPath, tree },
-          component: { type: "workspace_tree", props: { tree, rootPath: modelPath } },
+          modelResponse: {
+            path: modelPath,
+            tree: listing.tree,
+            total_entries: listing.total,
+            offset: listing.offset,
+            ...(listing.nextOffset !== undefined ? { next_offset: listing.nextOffset } : {}),
+          },
+          component: {
+            type: "workspace_tree",
+            props: {
+              tree: listing.tree,
+              rootPath: modelPath,
+              total: listing.total,
+              offset: listing.offset,
+              nextOffset: listing.nextOffset,
+            },
+          },
         };
       }
       case "read_file": {
         const absolutePath = resolveWorkspacePath(args.path, { allowDefaultRoot: false });
         const modelPath = toWorkspaceRelativePath(absolutePath);
-        const content = await workspaceRead(absolutePath);
-        const ext = modelPath.split(".").pop() || "text";
-        const langMap: Record<string, string> = {
-          ts: "typescript", tsx: "typescript", js: "javascript", jsx: "javascript",
-          py: "python", json: "json", md: "markdown", css: "css", html: "html",
-        };
-        const wasTruncated = content.length > MAX_FILE_CHARS_FOR_MODEL;
-        const omittedChars = wasTruncated ? content.length - MAX_FILE_CHARS_FOR_MODEL : 0;
-        const modelContent = wasTruncated ? content.slice(0, MAX_FILE_CHARS_FOR_MODEL) : content;
+        const file = await workspaceReadFile(absolutePath, {
+          startLine: args.start_line,
+          endLine: args.end_line,
+          maxChars: MAX_FILE_CHARS_FOR_MODEL,
+        });
+        if (file.kind !== "text") return nonTextFileOutcome(modelPath, file);
+        const content = file.content;
+        const page = pageLines(content, args.start_line, args.end_line, MAX_FILE_CHARS_FOR_MODEL);
+        // Highlight what the model saw unless it read the whole file
+        const partial = page.startLine > 1 || page.endLine < page.totalLines;
         return {
-          modelResponse: { path: modelPath, content: modelContent, truncated: wasTruncated, totalChars: content.length, omittedChars },
+          modelResponse: {
+            path: modelPath,
+            kind: "text",
+            content: page.text,
+            start_line: page.startLine,
+            end_line: page.endLine,
+            total_lines: page.totalLines,
+            truncated: page.truncated,
+            ...(page.endLine < page.totalLines ? { next_start_line: page.endLine + 1 } : {}),
+          },
           component: {
             type: "code_panel",
             props: {
               code: content,
-              language: langMap[ext] || "plaintext",
+              language: languageForPath(modelPath),
               filename: modelPath.split(/[/\\]/).pop() || modelPath,
-              truncated: wasTruncated,
-              omittedChars,
+              truncated: page.truncated,
+              totalLines: page.totalLines,
+              ...(partial ? { line: page.startLine, endLine: page.endLine } : {}),
+            },
+          },
+        };
+      }
+      case "search_code": {
+        const absolutePath = resolveWorkspacePath(args.path);
+        const modelPath = toWorkspaceRelativePath(absolutePath);
+        const result = await searchCode(absolutePath, {
+          query: args.query,
+          regex: args.regex,
+          caseSensitive: args.case_sensitive,
+          include: args.include,
+          exclude: args.exclude,
+          contextLines: args.context_lines,
+          maxResults: args.max_results,
+        });
+        return {
+          modelResponse: {
+            path: modelPath,
+            query: args.query,
+            matches: result.matches,
+            files_searched: result.filesSearched,
+            files_matched: result.filesMatched,
+            truncated: result.truncated,
+            ...(result.timedOut ? { note: "Search stopped at its time limit; narrow it with path or include." } : {}),
+          },
+          component: {
+            type: "search_results",
+            props: {
+              query: args.query,
+              regex: args.regex,
+              path: modelPath,
+              matches: result.matches,
+              filesSearched: result.filesSearched,
+              truncated: result.truncated,
+            },
+          },
+        };
+      }
+      case "get_symbols": {
+        const absolutePath = resolveWorkspacePath(args.path, { allowDefaultRoot: false });
+        const modelPath = toWorkspaceRelativePath(absolutePath);
+        const symbols = await getOutline(absolutePath);
+        return {
+          modelResponse: { path: modelPath, symbols },
+          component: { type: "symbol_outline", props: { path: modelPath, symbols } },
+        };
+      }
+      case "find_definition": {
+        const absolutePath = args.path ? resolveWorkspacePath(args.path, { allowDefaultRoot: false }) : undefined;
+        const result = await findDefinition(args.symbol, { absolutePath, line: args.line });
+        return {
+          modelResponse: {
+            symbol: args.symbol,
+            definitions: result.definitions,
+            references: result.references,
+            truncated: result.truncated,
+            files_indexed: result.filesIndexed,
+            ...(result.timedOut
+              ? { note: "Lookup stopped at its time limit; pass path (and line) to resolve the symbol from one file." }
+              : result.definitions.length === 0
+              ? { note: "No definition found; it may be a global, come from a dependency, or be spelled differently. Try search_code." }
+              : {}),
+          },
+          component: {
+            type: "symbol_outline",
+            props: {
+              symbol: args.symbol,
+              definitions: result.definitions,
+              references: result.references,
+              truncated: result.truncated,
             },
           },
         };
       }
       case "execute_command": {
-        const result = await requestApproval("terminal_run", args.reason, args.command);
+        const absoluteCwd = resolveWorkspacePath(args.cwd);
+        const cwd = toWorkspaceRelativePath(absoluteCwd);
+        const { approval_token, ...result } = await requestApproval("terminal_run", args.reason, args.command, absoluteCwd);
+        const cardProps = {
+          action: "terminal_run",
+          reason: args.reason,
+          command: args.command,
+          cwd,
+          request_id: result.request_id,
+          policy_rule: result.policy.rule,
+          policy_effect: result.policy.effect,
+          policy_message: result.policy.message,
+        };
+
+        if (result.status === "denied") {
+          return {
+            modelResponse: {
+              ...result,
+              command: args.command,
+              cwd,
+              error: `Blocked by policy rule "${result.policy.rule}"${result.policy.message ? `: ${result.policy.message}` : ""}`,
+            },
+            component: { type: "approval_card", props: cardProps },
+          };
+        }
+
+        if (result.status === "approved" && approval_token) {
+          // Auto-approved by policy: run now so the model sees the output this turn
+          const run = await runTerminal(args.command, approval_token, absoluteCwd, { timeoutMs: AUTO_APPROVED_TIMEOUT_MS });
+          const output = run.output.length > MAX_FILE_CHARS_FOR_MODEL ? run.output.slice(-MAX_FILE_CHARS_FOR_MODEL) : run.output;
+          return {
+            modelResponse: {
+              ...result,
+              command: args.command,
+              cwd,
+              exit_code: run.exitCode,
+              timed_out: run.timedOut,
+              output,
+              truncated: output.length < run.output.length,
+            },
+            component: {
+              type: "approval_card",
+              props: { ...cardProps, output: run.output, exit_code: run.exitCode },
+            },
+          };
+        }
+
+        return {
+          modelResponse: { ...result, action: "terminal_run", reason: args.reason, command: args.command, cwd },
+          component: { type: "approval_card", props: cardProps },
+        };
+      }
+      case "apply_patch":
+      case "write_file": {
+        const absolutePath = resolveWorkspaceWritePath(args.path);
+        const modelPath = toWorkspaceRelativePath(absolutePath);
+        const exists = existsSync(absolutePath);
+        const original = exists ? await workspaceRead(absolutePath) : "";
+        if (name === "apply_patch" && !exists) {
+          throw new Error(`File "${modelPath}" does not exist. Use write_file to create it.`);
+        }
+        const updated =
+          name === "apply_patch"
+            ? applyHunks(original, parseUnifiedDiff(String(args.patch ?? "")))
+            : String(args.content ?? "");
+        if (updated === original) {
+          throw new Error(`The proposed edit does not change "${modelPath}".`);
+        }
+        const hunks = diffLines(original, updated);
+        const additions = hunks.reduce((n, h) => n + h.lines.filter((l) => l.type === "add").length, 0);
+        const deletions = hunks.reduce((n, h) => n + h.lines.filter((l) => l.type === "remove").length, 0);
+        const { approval_token, ...result } = await proposeFileWrite(absolutePath, updated, args.reason);
+        if (result.status === "denied") {
+          throw new Error(
+            `Blocked by policy rule "${result.policy.rule}"${result.policy.message ? `: ${result.policy.message}` : ""}`
+          );
+        }
+        // Auto-approved by policy: write immediately
+        const applied = result.status === "approved" && approval_token
+          ? await applyFileWrite(result.request_id, approval_token)
+          : null;
         return {
-          modelResponse: { ...result, action: "terminal_run", reason: args.reason, command: args.command },
+          modelResponse: {
+            ...result,
+            action: "file_write",
+            path: modelPath,
+            created: !exists,
+            additions,
+            deletions,
+            message: applied ? "Written (auto-approved by policy)" : "Awaiting user review of the diff",
+          },
           component: {
-            type: "approval_card",
-            props: { action: "terminal_run", reason: args.reason, command: args.command, request_id: result.request_id },
+            type: "diff_review",
+            props: {
+              filename: modelPath,
+              hunks,
+              reason: args.reason,
+              request_id: result.request_id,
+              ...(applied ? { status: "applied" } : {}),
+            },
           },
         };
       }
@@ -294,46 +654,227 @@ async function handleToolCall(
   }
 }
 
+const DENIAL_INSTRUCTION = "Do not repeat the same request; propose an alternative or ask the user how to proceed.";
+
+/** The pending result of an approval tool call, rewritten once the user denied it. */
+function deniedResult(pending: Record<string, any>, denial: DeniedApproval): object {
+  return {
+    ...pending,
+    status: "denied",
+    message: "Denied by the user",
+    denial_reason: denial.reason || "no reason given",
+    note: DENIAL_INSTRUCTION,
+  };
+}
+
+/** The pending result of an approval tool call, rewritten once the approved request was carried out. */
+function approvedResult(pending: Record<string, any>, outcome: ApprovalOutcome): object {
+  if (outcome.action === "file_write") {
+    return {
+      ...pending,
+      status: outcome.written ? "written" : "failed",
+      message: outcome.written ? "Approved and written by the user" : "Approved by the user, but the write failed",
+      written: outcome.written,
+      path: toWorkspaceRelativePath(outcome.path),
+      ...(outcome.error ? { error: outcome.error } : {}),
+    };
+  }
+  return {
+    ...pending,
+    status: outcome.error ? "failed" : "executed",
+    message: outcome.error ? "Approved by the user, but the command could not run" : "Approved and run by the user",
+    exit_code: outcome.exitCode,
+    timed_out: outcome.timedOut,
+    output: outcome.output,
+    ...(outcome.error ? { error: outcome.error } : {}),
+  };
+}
+
+/** Denials of requests made outside this session have no call to answer, so they go with the message. */
+function formatDenial(denial: DeniedApproval): string {
+  return (
+    `Note: ${denial.action} request ${denial.requestId} (${denial.command}) was ` +
+    `denied by the user: ${denial.reason || "no reason given"}. ${DENIAL_INSTRUCTION}`
+  );
+}
+
+/**
+ * Run one turn's tool calls and return their outcomes in call order. Runs of
+ * read-only calls execute concurrently; approval tools run alone, in order,
+ * so a read after an (auto-approved) write sees the write.
+ */
+async function runToolCalls(
+  calls: FunctionCallRequest[],
+  emit: (event: TurnEvent) => void
+): Promise<ToolOutcome[]> {
+  const run = async (call: FunctionCallRequest): Promise<ToolOutcome> => {
+    emit({ type: "tool_call_start", id: call.id, name: call.name, args: call.args });
+    let outcome: ToolOutcome;
+    try {
+      const tool = tools.find((t) => t.name === call.name);
+      const validated = call.argsError
+        ? { ok: false as const, error: `${call.argsError} Call ${call.name} again with a JSON object.` }
+        : tool
+          ? validateToolArgs(tool, call.args)
+          : { ok: true as const, args: call.args };
+      outcome = validated.ok
+        ? await handleToolCall({ name: call.name, args: validated.args })
+        : { modelResponse: { error: validated.error } };
+    } catch (error: any) {
+      // Every call still gets a result, or the provider rejects the unpaired call
+      outcome = { modelResponse: { error: error?.message || String(error) } };
+    }
+    const toolError = (outcome.modelResponse as any)?.error;
+    emit({
+      type: "tool_call_end",
+      id: call.id,
+      name: call.name,
+      ok: !toolError,
+      ...(toolError ? { error: String(toolError) } : {}),
+    });
+    return outcome;
+  };
+
+  const outcomes: ToolOutcome[] = [];
+  let i = 0;
+  while (i < calls.length) {
+    if (APPROVAL_TOOLS.has(calls[i].name)) {
+      outcomes.push(await run(calls[i++]));
+      continue;
+    }
+    const batch: FunctionCallRequest[] = [];
+    while (i < calls.length && !APPROVAL_TOOLS.has(calls[i].name)) batch.push(calls[i++]);
+    outcomes.push(...(await Promise.all(batch.map(run))));
+  }
+  return outcomes;
+}
+
+/** Send tool results and forward the model's reply as it streams in. */
+async function streamToolResults(
+  chat: AIChat,
+  results: FunctionResult[],
+  onText: (text: string) => void
+): Promise<ModelTurn> {
+  for await (const event of chat.streamToolResults(results)) {
+    if (event.type === "text_delta") onText(event.text);
+    else if (event.type === "done") return event.turn;
+  }
+  throw new Error(`${chat.label} stream ended without a final turn`);
+}
+
 // ---------------------------------------------------------------------------
 // POST handler
 // ---------------------------------------------------------------------------
 
 export async function POST(request: NextRequest) {
+  // Events are only published when the client is listening on /api/stream
+  let emit: (event: TurnEvent) => void = () => {};
+
   try {
-    const { message, history } = await request.json();
+    const { message, session_id, stream_id, turn_id, denied_request_ids, provider, model, fallback } =
+      await request.json();
+
+    if (typeof message !== "string" || !message.trim()) {
+      return NextResponse.json({ error: "message is required" }, { status: 400 });
+    }
+
+    // Optional provider choice: `provider` (+ `model`) first, then `fallback` labels in order
+    let providers;
+    try {
+      providers = selectProviders({
+        preferred: typeof provider === "string" && provider ? (model ? `${provider}/${model}` : provider) : undefined,
+        fallback: Array.isArray(fallback) ? fallback.filter((f): f is string => typeof f === "string") : undefined,
+      });
+    } catch (err: any) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
 
-    // Build conversation history for the provider
-    const chatHistory = (history || []).map((msg: any) => ({
-      role: msg.role === "user" ? "user" : "assistant",
-      content: msg.content,
-    }));
+    if (typeof stream_id === "string" && stream_id) {
+      const turnId = typeof turn_id === "string" && turn_id ? turn_id : "turn";
+      emit = (event) => publish(stream_id, { ...event, turnId } as StreamEvent);
+    }
+
+    // Unknown or missing ids start a fresh session
+    const session = (typeof session_id === "string" && (await getSession(session_id))) || (await createSession());
+
+    // Approvals the user rejected since the last turn become the results of the calls that requested them
+    const denialNotes: string[] = [];
+    for (const id of Array.isArray(denied_request_ids) ? denied_request_ids : []) {
+      const denial = typeof id === "string" ? await takeDenial(id) : undefined;
+      if (denial && !updateApprovalResult(session, denial.requestId, (pending) => deniedResult(pending, denial))) {
+        denialNotes.push(formatDenial(denial));
+      }
+    }
+    // Approved requests carried out since the last turn report their outcome the same way
+    for (const requestId of pendingApprovalIds(session)) {
+      const outcome = await takeApprovalOutcome(requestId);
+      if (outcome) updateApprovalResult(session, requestId, (pending) => approvedResult(pending, outcome));
+    }
+    const providerMessage = [...denialNotes, message].join(MODEL_TEXT_SEPARATOR);
+    const chatHistory = toHistory(session);
+    const userTimestamp = new Date().toISOString();
+
+    const textParts: string[] = [];
+    // Whether the model turn in progress has streamed any text yet
+    let turnStreamed = false;
+    // Text deltas for one model turn, separated from text of earlier turns
+    const textEmitter = () => {
+      const separate = textParts.length > 0;
+      turnStreamed = false;
+      return (text: string) => {
+        emit({ type: "text_delta", text: separate && !turnStreamed ? MODEL_TEXT_SEPARATOR + text : text });
+        turnStreamed = true;
+      };
+    };
+
+    // Only pass tools if workspace exists; in cloud mode the AI answers directly
+    const activeTools = WORKSPACE_EXISTS ? tools : [];
 
     // Try all available providers with automatic fallback
     let chatSession;
+    let chatConfig;
     let currentTurn;
+    // Each time a provider's history had to be condensed to fit its context window
+    const contextReports: ContextReport[] = [];
     try {
-      // Only pass tools if workspace exists; in cloud mode the AI answers directly
-      const activeTools = WORKSPACE_EXISTS ? tools : [];
-      const { chat, turn } = await createChatWithFallback(SYSTEM_PROMPT, activeTools, chatHistory, message);
+      const { chat, turn, config, context } = await createChatWithFallback(
+        SYSTEM_PROMPT,
+        activeTools,
+        chatHistory,
+        providerMessage,
+        { onTextDelta: textEmitter(), providers }
+      );
       chatSession = chat;
+      chatConfig = config;
       currentTurn = turn;
+      if (context) contextReports.push(context);
     } catch (err: any) {
       console.error("[agent] Provider init failed:", err.message);
+      emit({ type: "error", message: err.message });
       return NextResponse.json({ error: err.message }, { status: 503 });
     }
 
+    const usage = recordUsage(emptyReport(), chatSession.label, currentTurn.usage);
+
     // Process the tool-calling loop
     const components: UIComponent[] = [];
-    const textParts: string[] = [];
+    const steps: SessionStep[] = [];
     let textChars = 0;
     let fallbackText = "";
-    let sawExecuteCommand = false;
+    let awaitingApproval = false;
     let notedModelTruncation = false;
     let stopReason: "char_limit" | "step_limit" | null = null;
+    // This turn in provider-agnostic form, replayed on another provider if the current one fails
+    const transcript: HistoryMessage[] = [...chatHistory, { role: "user", content: providerMessage }];
+    const failovers: { from: string; to: string; step: number; error: string }[] = [];
 
     let step = 0;
     while (step < MAX_TOOL_STEPS) {
-      // Collect text from this turn
+      // Only calls that actually run are recorded, so the transcript replays cleanly
+      const stepRecord: SessionStep = { text: currentTurn.text || "", toolCalls: [] };
+      steps.push(stepRecord);
+
+      // Collect text from this turn (already streamed to the client)
       if (currentTurn.text) {
         textParts.push(currentTurn.text);
         textChars += currentTurn.text.length;
@@ -348,49 +889,100 @@ export async function POST(request: NextRequest) {
         break;
       }
 
-      // Execute each tool call
-      const functionResults: FunctionResult[] = [];
-
+      // Set fallback text
       for (const call of currentTurn.functionCalls) {
-        const toolCall: ToolCall = { name: call.name, args: call.args };
-
-        // Set fallback text
-        switch (toolCall.name) {
+        switch (call.name) {
           case "list_workspace_files":
             fallbackText = "Here's the project structure:";
             break;
           case "read_file":
             fallbackText = "Here's the file:";
             break;
+          case "search_code":
+          case "find_definition":
+            fallbackText = "Here's what I found:";
+            break;
+          case "get_symbols":
+            fallbackText = "Here's the outline:";
+            break;
           case "execute_command":
             fallbackText = "This command requires your approval:";
             break;
+          case "apply_patch":
+          case "write_file":
+            fallbackText = "Review the proposed changes:";
+            break;
           default:
             if (!fallbackText) fallbackText = "Here's what I found:";
         }
+      }
+
+      // Execute the tool calls; results keep the order and ids of the calls
+      const functionResults: FunctionResult[] = [];
+      const outcomes = await runToolCalls(currentTurn.functionCalls, emit);
 
-        const { modelResponse, component } = await handleToolCall(toolCall);
-        if (component) components.push(component);
+      currentTurn.functionCalls.forEach((call, i) => {
+        const { modelResponse, component } = outcomes[i];
+        if (component) {
+          components.push(component);
+          emit({ type: "component", component });
+        }
 
         if (
-          toolCall.name === "read_file" &&
+          call.name === "read_file" &&
           typeof (modelResponse as any)?.truncated === "boolean" &&
           (modelResponse as any).truncated
         ) {
           notedModelTruncation = true;
         }
 
-        functionResults.push({ name: toolCall.name, result: modelResponse });
+        functionResults.push({ id: call.id, name: call.name, result: modelResponse });
+        stepRecord.toolCalls.push({ id: call.id, name: call.name, args: call.args, result: modelResponse });
 
-        if (toolCall.name === "execute_command") sawExecuteCommand = true;
-      }
+        if (APPROVAL_TOOLS.has(call.name) && (modelResponse as any)?.status === "pending") {
+          awaitingApproval = true;
+        }
+      });
 
-      // Send tool results back to the model
-      currentTurn = await chatSession.sendToolResults(functionResults);
+      // Send tool results back to the model, failing over to the next provider on error
+      transcript.push({
+        role: "assistant",
+        content: currentTurn.text,
+        functionCalls: stepRecord.toolCalls.map(({ id, name, args }) => ({ id, name, args })),
+      });
+      // Replay the transcript on providers[start...]; history is condensed to fit on the way
+      const resumeFrom = async (start: number) => {
+        const resumed = await resumeChatWithFallback(SYSTEM_PROMPT, activeTools, transcript, functionResults, {
+          onTextDelta: textEmitter(),
+          providers: providers.slice(start),
+        });
+        chatSession = resumed.chat;
+        chatConfig = resumed.config;
+        if (resumed.context) contextReports.push(resumed.context);
+        return resumed.turn;
+      };
+      try {
+        // The open chat's own message list can't be trimmed, so an overflowing turn restarts it condensed
+        const overflowing =
+          estimateRequestTokens(SYSTEM_PROMPT, activeTools, transcript, functionResults) > contextBudget(chatSession.label);
+        currentTurn = overflowing
+          ? await resumeFrom(providers.indexOf(chatConfig))
+          : await streamToolResults(chatSession, functionResults, textEmitter());
+      } catch (err: any) {
+        // Text already shown can't be taken back, so a half-streamed reply is not retried
+        if (turnStreamed) throw err;
+        const from = chatSession.label;
+        console.warn(`[agent] ${from} failed at step ${step + 1} (${describeProviderError(err)}); failing over`);
+        currentTurn = await resumeFrom(providers.indexOf(chatConfig) + 1);
+        failovers.push({ from, to: chatSession.label, step: step + 1, error: describeProviderError(err) });
+      }
+      transcript.push({ role: "tool", results: functionResults });
+      recordUsage(usage, chatSession.label, currentTurn.usage);
 
-      // If we ran an execute_command, collect final text and stop
-      if (sawExecuteCommand) {
+      // If a tool is waiting on user approval, collect final text and stop
+      if (awaitingApproval) {
         if (currentTurn.text) {
+          steps.push({ text: currentTurn.text, toolCalls: [] });
           textParts.push(currentTurn.text);
           textChars += currentTurn.text.length;
         }
@@ -401,7 +993,14 @@ export async function POST(request: NextRequest) {
     }
 
     // Add limit notes
-    if (step >= MAX_TOOL_STEPS && stopReason === null) stopReason = "step_limit";
+    if (step >= MAX_TOOL_STEPS && stopReason === null) {
+      stopReason = "step_limit";
+      // The last reply was already streamed, so keep its text even though its tool calls won't run
+      if (currentTurn.text) {
+        steps.push({ text: currentTurn.text, toolCalls: [] });
+        textParts.push(currentTurn.text);
+      }
+    }
 
     if (stopReason === "char_limit") {
       textParts.unshift(`Note: response reached the ${MAX_RESPONSE_CHARS} character limit.`);
@@ -409,8 +1008,23 @@ export async function POST(request: NextRequest) {
       textParts.unshift(`Note: reached the maximum of ${MAX_TOOL_STEPS} tool steps. Ask me to continue if something looks incomplete.`);
     }
 
+    for (const c of [...contextReports].reverse()) {
+      const condensed = [
+        c.summarizedTurns ? `summarized ${c.summarizedTurns} earlier turn${c.summarizedTurns === 1 ? "" : "s"}` : "",
+        c.elidedResults ? `elided ${c.elidedResults} large tool result${c.elidedResults === 1 ? "" : "s"}` : "",
+      ].filter(Boolean);
+      textParts.unshift(
+        `Note: condensed the conversation to fit ${c.label}'s ${c.windowTokens.toLocaleString("en-US")}-token context window` +
+          (condensed.length ? ` (${condensed.join(", ")}).` : ".")
+      );
+    }
+
+    for (const f of [...failovers].reverse()) {
+      textParts.unshift(`Note: ${f.from} failed at step ${f.step} (${f.error}); continued with ${f.to}.`);
+    }
+
     if (notedModelTruncation) {
-      textParts.unshift(`Note: large files are truncated to ${MAX_FILE_CHARS_FOR_MODEL} characters for the AI model.`);
+      textParts.unshift(`Note: large files are read in pages of up to ${MAX_FILE_CHARS_FOR_MODEL} characters.`);
     }
 
     const textContent = textParts
@@ -419,12 +1033,47 @@ export async function POST(request: NextRequest) {
       .slice(0, MAX_RESPONSE_CHARS)
       .trim();
 
+    const content = textContent || fallbackText || "I'm ready to help you explore your codebase!";
+    // Assistant entries reuse the client's turn id so a reloaded transcript keeps message ids
+    const entryId = typeof turn_id === "string" && turn_id ? turn_id : `turn_${Date.now()}`;
+    await appendEntries(session, [
+      {
+        type: "user",
+        id: `${entryId}-user`,
+        content: message,
+        ...(denialNotes.length ? { notes: denialNotes } : {}),
+        timestamp: userTimestamp,
+      },
+      {
+        type: "assistant",
+        id: entryId,
+        content,
+        steps,
+        components,
+        provider: chatSession.label,
+        usage,
+        timestamp: new Date().toISOString(),
+      },
+    ]);
+    console.log(
+      `[ai] ${chatSession.label} usage: ${usage.inputTokens} in / ${usage.cachedTokens} cached / ` +
+        `${usage.outputTokens} out, $${usage.costUsd.toFixed(4)}`
+    );
+
+    emit({ type: "done" });
+
     return NextResponse.json({
-      content: textContent || fallbackText || "I'm ready to help you explore your codebase!",
+      content,
       components,
+      session_id: session.id,
+      provider: chatSession.label,
+      ...(failovers.length ? { failovers } : {}),
+      ...(contextReports.length ? { context: contextReports } : {}),
+      usage: { request: usage, session: sessionUsage(session) },
     });
   } catch (error: any) {
     console.error("Agent error:", error);
+    emit({ type: "error", message: error.message });
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 }
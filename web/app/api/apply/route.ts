@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { applyFileWrite } from "@/lib/mcp-tools";
+import { toWorkspaceRelativePath } from "@/lib/workspace";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { request_id, approval_token } = await request.json();
+
+    if (!approval_token) {
+      return NextResponse.json({ error: "Missing approval_token" }, { status: 400 });
+    }
+
+    if (!request_id) {
+      return NextResponse.json({ error: "Missing request_id" }, { status: 400 });
+    }
+
+    const result = await applyFileWrite(request_id, approval_token);
+
+    return NextResponse.json({
+      success: true,
+      path: toWorkspaceRelativePath(result.path),
+      bytes: result.bytes,
+      created: result.created,
+    });
+  } catch (error: any) {
+    console.error("Apply error:", error);
+    const status = error.message.includes("PERMISSION DENIED")
+      ? 403
+      : error.message.includes("changed since")
+        ? 409
+        : 500;
+    return NextResponse.json({ success: false, error: error.message }, { status });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { grantApproval } from "@/lib/mcp-tools";
+import { resolveActor } from "@/lib/audit-log";
 
 export async function POST(request: NextRequest) {
   try {
@@ -9,7 +10,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Missing request_id" }, { status: 400 });
     }
 
-    const result = await grantApproval(request_id);
+    const actor = resolveActor(request.headers);
+    const result = await grantApproval(request_id, actor.decidedBy, actor.claimedBy);
     return NextResponse.json(result);
   } catch (error: any) {
     console.error("Approve error:", error);
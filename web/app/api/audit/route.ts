@@ -0,0 +1,33 @@
+/**
+ * Audit Log API
+ *
+ * Pages through the approval audit log, newest first.
+ * Query params: event, action, request_id, decision, since, until, cursor, limit.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { queryAudit, type AuditQuery } from "@/lib/audit-log";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const query: AuditQuery = {
+      event: (params.get("event") || undefined) as AuditQuery["event"],
+      action: params.get("action") || undefined,
+      request_id: params.get("request_id") || undefined,
+      decision: (params.get("decision") || undefined) as AuditQuery["decision"],
+      since: params.get("since") || undefined,
+      until: params.get("until") || undefined,
+      cursor: params.get("cursor") || undefined,
+      limit: params.has("limit") ? Number(params.get("limit")) : undefined,
+    };
+
+    const page = await queryAudit(query);
+    return NextResponse.json(page);
+  } catch (error: any) {
+    console.error("Audit error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { denyApproval } from "@/lib/mcp-tools";
+import { resolveActor } from "@/lib/audit-log";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { request_id, reason } = await request.json();
+
+    if (!request_id) {
+      return NextResponse.json({ error: "Missing request_id" }, { status: 400 });
+    }
+
+    const actor = resolveActor(request.headers);
+    const result = await denyApproval(
+      request_id,
+      typeof reason === "string" ? reason : undefined,
+      actor.decidedBy,
+      actor.claimedBy
+    );
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error("Deny error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
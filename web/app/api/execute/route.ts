@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runTerminal } from "@/lib/mcp-tools";
+import { publish, type StreamEvent } from "@/lib/event-stream";
+import { resolveWorkspacePath } from "@/lib/workspace";
 
 export async function POST(request: NextRequest) {
+  // Live output is only published when the client is listening on /api/stream
+  let emit: (event: StreamEvent) => void = () => {};
+  let runId = "";
+
   try {
-    const { command, approval_token, cwd } = await request.json();
+    const { command, approval_token, cwd, stream_id, run_id } = await request.json();
 
     if (!approval_token) {
       return NextResponse.json({ error: "Missing approval_token" }, { status: 400 });
@@ -13,14 +19,48 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Missing command" }, { status: 400 });
     }
 
-    const output = await runTerminal(command, approval_token, cwd);
-    
+    if (typeof stream_id === "string" && stream_id && typeof run_id === "string" && run_id) {
+      runId = run_id;
+      emit = (event) => publish(stream_id, event);
+    }
+
+    // `cwd` is workspace-relative; anything escaping the workspace is rejected
+    let workDir: string;
+    try {
+      workDir = resolveWorkspacePath(cwd);
+    } catch (err: any) {
+      return NextResponse.json(
+        { success: false, error: `⛔ PERMISSION DENIED: ${err.message}` },
+        { status: 403 }
+      );
+    }
+
+    emit({ type: "terminal_start", runId, command });
+    const result = await runTerminal(command, approval_token, workDir, {
+      onLine: (stream, line) => emit({ type: "terminal_output", runId, stream, line }),
+    });
+
+    const success = result.exitCode === 0;
+    const error = success
+      ? undefined
+      : result.timedOut
+        ? "Command timed out"
+        : result.exitCode === null
+          ? `Command terminated by ${result.signal || "signal"}`
+          : `Command exited with code ${result.exitCode}`;
+
+    emit({ type: "terminal_exit", runId, status: success ? "success" : "error", exitCode: result.exitCode, error });
+
     return NextResponse.json({
-      success: true,
-      output,
+      success,
+      output: result.output,
+      exit_code: result.exitCode,
+      duration_ms: result.durationMs,
+      ...(error ? { error } : {}),
     });
   } catch (error: any) {
     console.error("Execute error:", error);
+    emit({ type: "terminal_exit", runId, status: "error", exitCode: null, error: error.message });
     return NextResponse.json(
       { 
         success: false,
@@ -0,0 +1,64 @@
+/**
+ * File API
+ *
+ * Read-only view of one workspace file for the CodePanel (e.g. opening a
+ * search hit). Paths are confined with `resolveWorkspacePath`, exactly like
+ * the agent's read_file tool. With `?raw=1`, image files are served as-is
+ * for the FilePreview; other binaries are never served.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { readFileSync, statSync } from "fs";
+import { workspaceRead } from "@/lib/mcp-tools";
+import { WORKSPACE_EXISTS, resolveWorkspacePath, toWorkspaceRelativePath } from "@/lib/workspace";
+import { languageForPath } from "@/lib/languages";
+import { sniffFile } from "@/lib/file-sniff";
+
+export const dynamic = "force-dynamic";
+
+// The editor is not meant for huge files; larger ones are refused
+const MAX_VIEW_BYTES = 2_000_000;
+const MAX_IMAGE_BYTES = 20_000_000;
+
+export async function GET(request: NextRequest) {
+  if (!WORKSPACE_EXISTS) {
+    return NextResponse.json({ error: "No workspace is available" }, { status: 404 });
+  }
+
+  let absolutePath: string;
+  try {
+    absolutePath = resolveWorkspacePath(request.nextUrl.searchParams.get("path"), { allowDefaultRoot: false });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  try {
+    const info = statSync(absolutePath);
+    if (!info.isFile()) {
+      return NextResponse.json({ error: "Not a file" }, { status: 400 });
+    }
+    const sniffed = await sniffFile(absolutePath);
+    if (request.nextUrl.searchParams.get("raw") === "1") {
+      if (sniffed.kind !== "image" || !sniffed.mimeType) {
+        return NextResponse.json({ error: "Only images can be fetched raw" }, { status: 415 });
+      }
+      if (info.size > MAX_IMAGE_BYTES) {
+        return NextResponse.json({ error: `Image is larger than ${MAX_IMAGE_BYTES} bytes` }, { status: 413 });
+      }
+      return new NextResponse(readFileSync(absolutePath), {
+        headers: { "Content-Type": sniffed.mimeType, "Cache-Control": "no-store" },
+      });
+    }
+    if (sniffed.kind !== "text") {
+      return NextResponse.json({ error: `Not a text file (${sniffed.description})` }, { status: 415 });
+    }
+    if (info.size > MAX_VIEW_BYTES) {
+      return NextResponse.json({ error: `File is larger than ${MAX_VIEW_BYTES} bytes` }, { status: 413 });
+    }
+    const path = toWorkspaceRelativePath(absolutePath);
+    return NextResponse.json({ path, content: await workspaceRead(absolutePath), language: languageForPath(path) });
+  } catch (error: any) {
+    console.error("File error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
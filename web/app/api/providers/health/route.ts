@@ -0,0 +1,20 @@
+/**
+ * Provider Health API
+ *
+ * Circuit state, latency and last error per `provider/model`, as recorded by
+ * the provider health registry since the server started.
+ */
+
+import { NextResponse } from "next/server";
+import { getProviderHealth } from "@/lib/provider-health";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ providers: getProviderHealth() });
+  } catch (error: any) {
+    console.error("Provider health error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Providers API
+ *
+ * Lists the configured AI providers and models in default fallback order.
+ * Only labels and endpoints are returned - never API keys.
+ */
+
+import { NextResponse } from "next/server";
+import { getAvailableProviders, providerLabel } from "@/lib/ai-providers";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const seen = new Set<string>();
+    const providers = [];
+    // The same model can be configured under two keys (GEMINI_API_KEY / GOOGLE_API_KEY)
+    for (const config of getAvailableProviders()) {
+      const label = providerLabel(config);
+      if (seen.has(label)) continue;
+      seen.add(label);
+      providers.push({
+        label,
+        provider: label.split("/")[0],
+        model: config.model,
+        ...(config.baseURL ? { base_url: config.baseURL } : {}),
+      });
+    }
+    return NextResponse.json({ providers, default: providers[0]?.label ?? null });
+  } catch (error: any) {
+    console.error("Providers error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
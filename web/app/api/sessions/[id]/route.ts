@@ -0,0 +1,44 @@
+/**
+ * Session API
+ *
+ * GET returns one conversation transcript (with usage totals) so the UI can
+ * resume it; DELETE removes it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { deleteSession, getSession, sessionUsage } from "@/lib/session-store";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getSession(params.id);
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+    return NextResponse.json({
+      id: session.id,
+      title: session.title,
+      created_at: session.createdAt,
+      updated_at: session.updatedAt,
+      entries: session.entries,
+      usage: sessionUsage(session),
+    });
+  } catch (error: any) {
+    console.error("Session error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const deleted = await deleteSession(params.id);
+    if (!deleted) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Session error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
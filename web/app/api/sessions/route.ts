@@ -0,0 +1,28 @@
+/**
+ * Sessions API
+ *
+ * Lists stored conversations, most recently updated first.
+ */
+
+import { NextResponse } from "next/server";
+import { listSessions } from "@/lib/session-store";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const sessions = await listSessions();
+    return NextResponse.json({
+      sessions: sessions.map((s) => ({
+        id: s.id,
+        title: s.title,
+        created_at: s.createdAt,
+        updated_at: s.updatedAt,
+        message_count: s.messageCount,
+      })),
+    });
+  } catch (error: any) {
+    console.error("Sessions error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
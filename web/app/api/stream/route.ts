@@ -1,30 +1,47 @@
 /**
  * SSE Stream API
- * 
+ *
  * Streams terminal output and agent events to the client.
  */
 
 import { NextRequest } from "next/server";
+import { subscribe, unsubscribe, heartbeat } from "@/lib/event-stream";
 
-// Store active streams
-const streams = new Map<string, ReadableStreamDefaultController>();
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_MS = 15_000;
 
 export async function GET(request: NextRequest) {
   const streamId = request.nextUrl.searchParams.get("id") || "default";
+  let streamController: ReadableStreamDefaultController<Uint8Array> | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const cleanup = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+    if (streamController) unsubscribe(streamId, streamController);
+    streamController = null;
+  };
 
-  const stream = new ReadableStream({
+  const stream = new ReadableStream<Uint8Array>({
     start(controller) {
-      streams.set(streamId, controller);
-      
-      // Send initial connection message
-      const data = JSON.stringify({ type: "connected", streamId });
-      controller.enqueue(`data: ${data}\n\n`);
+      streamController = controller;
+      subscribe(streamId, controller);
+      timer = setInterval(() => {
+        try {
+          heartbeat(controller);
+        } catch {
+          cleanup();
+        }
+      }, HEARTBEAT_MS);
     },
     cancel() {
-      streams.delete(streamId);
+      cleanup();
     },
   });
 
+  request.signal.addEventListener("abort", cleanup);
+
   return new Response(stream, {
     headers: {
       "Content-Type": "text/event-stream",
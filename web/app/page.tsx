@@ -1,19 +1,30 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Send, Loader2, Terminal, FolderTree, Code2 } from "lucide-react";
+import { Send, Loader2, Terminal, FolderTree, Code2, Plus, Trash2 } from "lucide-react";
 import {
   WorkspaceTree,
   CodePanel,
   ApprovalCard,
   TerminalStream,
   DiffReview,
+  SearchResults,
+  FilePreview,
+  SymbolOutline,
 } from "@/components/vibe";
 
 type MessageRole = "user" | "assistant";
 
 interface UIComponent {
-  type: "workspace_tree" | "code_panel" | "approval_card" | "terminal_stream" | "diff_review";
+  type:
+    | "workspace_tree"
+    | "code_panel"
+    | "file_preview"
+    | "approval_card"
+    | "terminal_stream"
+    | "diff_review"
+    | "search_results"
+    | "symbol_outline";
   props: any;
 }
 
@@ -21,14 +32,102 @@ const HUD_TABS = ["workspace", "code", "terminal", "diff"] as const;
 type HudTab = (typeof HUD_TABS)[number];
 type HudState = Partial<Record<HudTab, UIComponent>>;
 
+interface ToolActivity {
+  /** Tool-call id; parallel calls to the same tool are told apart by it. */
+  id?: string;
+  name: string;
+  status: "running" | "done" | "error";
+  error?: string;
+}
+
+interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  costUsd: number;
+  unpricedTurns: number;
+}
+
 interface Message {
   id: string;
   role: MessageRole;
   content: string;
   components?: UIComponent[];
+  tools?: ToolActivity[];
+  usage?: UsageTotals;
+  /** `provider/model` label that produced this reply. */
+  provider?: string;
+  streaming?: boolean;
   timestamp: Date;
 }
 
+// Higher number = higher priority for auto-activating the HUD tab.
+const HUD_TAB_ORDER: Record<HudTab, number> = {
+  workspace: 1,
+  code: 2,
+  diff: 3,
+  terminal: 4,
+};
+
+const HUD_TAB_FOR_COMPONENT: Partial<Record<UIComponent["type"], HudTab>> = {
+  workspace_tree: "workspace",
+  code_panel: "code",
+  file_preview: "code",
+  terminal_stream: "terminal",
+  diff_review: "diff",
+};
+
+// The open conversation survives reloads; its transcript lives on the server.
+const SESSION_STORAGE_KEY = "vibecontrol.session_id";
+// Preferred `provider/model` label; empty means the server's default order.
+const PROVIDER_STORAGE_KEY = "vibecontrol.provider";
+
+interface ProviderOption {
+  label: string;
+  provider: string;
+  model: string;
+}
+
+interface ProviderHealth {
+  label: string;
+  state: "closed" | "open" | "half_open" | "disabled";
+  lastError: { class: string; message: string } | null;
+  avgLatencyMs: number | null;
+}
+
+const HEALTH_SUFFIX: Record<ProviderHealth["state"], string> = {
+  closed: "",
+  half_open: " (recovering)",
+  open: " (circuit open)",
+  disabled: " (key rejected)",
+};
+
+function formatUsage(usage: UsageTotals): string {
+  const tokens = usage.inputTokens + usage.cachedTokens + usage.outputTokens;
+  const count = tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+  const cost = usage.unpricedTurns > 0 && usage.costUsd === 0 ? "cost unknown" : `$${usage.costUsd.toFixed(4)}`;
+  return `${count} tokens · ${cost}`;
+}
+
+/**
+ * Approval and diff cards reopened from a saved session can't be acted on any
+ * more; mark them read-only, showing a denial the transcript recorded.
+ */
+function restoreDecision(component: UIComponent, resultStatus: Map<string, string>): UIComponent {
+  if ((component.type !== "approval_card" && component.type !== "diff_review") || !component.props.request_id) {
+    return component;
+  }
+  const restored = resultStatus.get(component.props.request_id) === "denied" ? "denied" : "undecided";
+  return { ...component, props: { ...component.props, restored } };
+}
+
+interface SessionSummary {
+  id: string;
+  title: string;
+  updated_at: string;
+  message_count: number;
+}
+
 export default function Home() {
   const [messages, setMessages] = useState<Message[]>([]);
   // Mirror of messages to avoid stale closures in async `sendMessage` and queued sends.
@@ -40,6 +139,24 @@ export default function Home() {
   const inFlightRef = useRef(false);
   const pendingQueueRef = useRef<string[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // SSE stream id for this tab; the agent publishes turn events under it.
+  const streamIdRef = useRef<string | null>(null);
+  const [streamId, setStreamId] = useState<string | null>(null);
+  // Terminal runs whose output arrived over the stream (HUD already holds it).
+  const streamedRunsRef = useRef<Set<string>>(new Set());
+  // Approval requests the user denied; reported to the model with the next message.
+  const deniedRequestIdsRef = useRef<string[]>([]);
+  // Turns that received at least one streamed event (their HUD is already up to date).
+  const streamedTurnsRef = useRef<Set<string>>(new Set());
+  // Server-side conversation this tab is appending to (null until the first reply).
+  const sessionIdRef = useRef<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [sessionUsage, setSessionUsage] = useState<UsageTotals | null>(null);
+  const [providerOptions, setProviderOptions] = useState<ProviderOption[]>([]);
+  const [preferredProvider, setPreferredProvider] = useState("");
+  const preferredProviderRef = useRef("");
+  const [providerHealth, setProviderHealth] = useState<Record<string, ProviderHealth>>({});
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -49,6 +166,332 @@ export default function Home() {
     scrollToBottom();
   }, [messages]);
 
+  /** Insert or update a message by id, keeping `messagesRef` in sync. */
+  const upsertMessage = (id: string, update: (prev: Message | undefined) => Message) => {
+    setMessages((prev) => {
+      const index = prev.findIndex((m) => m.id === id);
+      const next =
+        index === -1
+          ? [...prev, update(undefined)]
+          : prev.map((m, i) => (i === index ? update(m) : m));
+      messagesRef.current = next;
+      return next;
+    });
+  };
+
+  /**
+   * Route HUD-bound components into the side panel and return the rest for
+   * inline rendering in the chat.
+   */
+  const applyHudComponents = (components: UIComponent[]): UIComponent[] => {
+    const hudUpdates: HudState = {};
+    const chatComponents: UIComponent[] = [];
+    let nextActiveTab: HudTab | null = null;
+
+    for (const comp of components) {
+      const tab = HUD_TAB_FOR_COMPONENT[comp.type];
+      if (!tab) {
+        chatComponents.push(comp);
+        continue;
+      }
+      hudUpdates[tab] = comp;
+      if (!nextActiveTab || HUD_TAB_ORDER[tab] > HUD_TAB_ORDER[nextActiveTab]) {
+        nextActiveTab = tab;
+      }
+    }
+
+    if (Object.keys(hudUpdates).length > 0) {
+      setHudState((prev) => ({ ...prev, ...hudUpdates }));
+      if (nextActiveTab) setActiveHudTab(nextActiveTab);
+    }
+    return chatComponents;
+  };
+
+  /** Update the HUD terminal only if it is still showing the given run. */
+  const updateTerminalRun = (runId: string, update: (props: any) => any) => {
+    setHudState((prev) => {
+      if (prev.terminal?.props?.runId !== runId) return prev;
+      return { ...prev, terminal: { type: "terminal_stream", props: update(prev.terminal.props) } };
+    });
+  };
+
+  /** Show a workspace file in the HUD code panel, scrolled to `line` (highlighting through `endLine`). */
+  const openFileAt = async (path: string, line?: number, endLine?: number) => {
+    try {
+      const response = await fetch(`/api/file?path=${encodeURIComponent(path)}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+      setHudState((prev) => ({
+        ...prev,
+        code: {
+          type: "code_panel",
+          props: {
+            code: data.content,
+            language: data.language,
+            filename: data.path.split(/[/\\]/).pop() || data.path,
+            line,
+            endLine,
+          },
+        },
+      }));
+      setActiveHudTab("code");
+    } catch (err) {
+      console.error(`Failed to open ${path}:`, err);
+    }
+  };
+
+  const startTerminalRun = (runId: string, command: string) => {
+    setHudState((prev) =>
+      prev.terminal?.props?.runId === runId
+        ? prev
+        : {
+            ...prev,
+            terminal: {
+              type: "terminal_stream",
+              props: { lines: [`$ ${command}`], status: "running", command, runId },
+            },
+          }
+    );
+    setActiveHudTab("terminal");
+  };
+
+  const handleTerminalEvent = (event: any) => {
+    switch (event.type) {
+      case "terminal_start":
+        startTerminalRun(event.runId, String(event.command || ""));
+        break;
+      case "terminal_output":
+        streamedRunsRef.current.add(event.runId);
+        updateTerminalRun(event.runId, (props) => ({ ...props, lines: [...props.lines, String(event.line)] }));
+        break;
+      case "terminal_exit":
+        updateTerminalRun(event.runId, (props) => ({
+          ...props,
+          status: event.status,
+          exitCode: event.exitCode,
+          lines: event.error ? [...props.lines, `❌ ${event.error}`] : props.lines,
+        }));
+        break;
+    }
+  };
+
+  const handleStreamEvent = (event: any) => {
+    if (typeof event?.type === "string" && event.type.startsWith("terminal_")) {
+      handleTerminalEvent(event);
+      return;
+    }
+    if (!event?.turnId) return;
+    const turnId: string = event.turnId;
+    // Ignore stragglers that arrive after the final response settled the turn
+    const existing = messagesRef.current.find((m) => m.id === turnId);
+    if (existing && !existing.streaming) return;
+    streamedTurnsRef.current.add(turnId);
+
+    const blank = (): Message => ({
+      id: turnId,
+      role: "assistant",
+      content: "",
+      streaming: true,
+      timestamp: new Date(),
+    });
+
+    switch (event.type) {
+      case "text_delta":
+        upsertMessage(turnId, (m) => {
+          const base = m ?? blank();
+          return { ...base, content: base.content + String(event.text || "") };
+        });
+        break;
+      case "tool_call_start":
+        upsertMessage(turnId, (m) => {
+          const base = m ?? blank();
+          return { ...base, tools: [...(base.tools || []), { id: event.id, name: event.name, status: "running" }] };
+        });
+        break;
+      case "tool_call_end":
+        upsertMessage(turnId, (m) => {
+          const base = m ?? blank();
+          const tools = [...(base.tools || [])];
+          const index = event.id
+            ? tools.findIndex((t) => t.id === event.id)
+            : tools.map((t) => t.name === event.name && t.status === "running").lastIndexOf(true);
+          const finished: ToolActivity = {
+            id: event.id,
+            name: event.name,
+            status: event.ok ? "done" : "error",
+            error: event.error,
+          };
+          if (index === -1) tools.push(finished);
+          else tools[index] = finished;
+          return { ...base, tools };
+        });
+        break;
+      case "component": {
+        const chatComponents = applyHudComponents([event.component as UIComponent]);
+        if (chatComponents.length > 0) {
+          upsertMessage(turnId, (m) => {
+            const base = m ?? blank();
+            return { ...base, components: [...(base.components || []), ...chatComponents] };
+          });
+        }
+        break;
+      }
+    }
+  };
+
+  useEffect(() => {
+    const id = crypto.randomUUID();
+    const source = new EventSource(`/api/stream?id=${encodeURIComponent(id)}`);
+    source.onopen = () => {
+      streamIdRef.current = id;
+      setStreamId(id);
+    };
+    source.onmessage = (e) => {
+      try {
+        handleStreamEvent(JSON.parse(e.data));
+      } catch {
+        /* malformed event */
+      }
+    };
+    source.onerror = () => {
+      // Fall back to the plain JSON response until the browser reconnects
+      if (source.readyState === EventSource.CLOSED) {
+        streamIdRef.current = null;
+        setStreamId(null);
+      }
+    };
+    return () => {
+      streamIdRef.current = null;
+      setStreamId(null);
+      source.close();
+    };
+    // handleStreamEvent only uses refs and state setters
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const selectSession = (id: string | null) => {
+    sessionIdRef.current = id;
+    setSessionId(id);
+    if (id) localStorage.setItem(SESSION_STORAGE_KEY, id);
+    else localStorage.removeItem(SESSION_STORAGE_KEY);
+  };
+
+  const refreshSessions = async () => {
+    try {
+      const response = await fetch("/api/sessions");
+      if (response.ok) setSessions((await response.json()).sessions || []);
+    } catch {
+      /* session list is best-effort */
+    }
+  };
+
+  /** Replace the chat and HUD with a stored transcript. */
+  const openSession = async (id: string) => {
+    if (inFlightRef.current) return;
+    try {
+      const response = await fetch(`/api/sessions/${encodeURIComponent(id)}`);
+      if (!response.ok) {
+        if (response.status === 404) selectSession(null);
+        return;
+      }
+      const data = await response.json();
+      setHudState({});
+      deniedRequestIdsRef.current = [];
+      const restored: Message[] = (data.entries || []).map((entry: any) => {
+        if (entry.type === "user") {
+          return { id: entry.id, role: "user", content: entry.content, timestamp: new Date(entry.timestamp) };
+        }
+        const calls: any[] = (entry.steps || []).flatMap((step: any) => step.toolCalls || []);
+        const tools: ToolActivity[] = calls.map((call) => ({
+          id: call.id,
+          name: call.name,
+          status: call.result?.error ? "error" : "done",
+          error: call.result?.error ? String(call.result.error) : undefined,
+        }));
+        const resultStatus = new Map<string, string>(
+          calls.filter((call) => call.result?.request_id).map((call) => [call.result.request_id, call.result.status])
+        );
+        return {
+          id: entry.id,
+          role: "assistant",
+          content: entry.content,
+          components: applyHudComponents(
+            ((entry.components || []) as UIComponent[]).map((component) => restoreDecision(component, resultStatus))
+          ),
+          tools,
+          usage: entry.usage,
+          provider: entry.provider,
+          timestamp: new Date(entry.timestamp),
+        };
+      });
+      messagesRef.current = restored;
+      setMessages(restored);
+      setSessionUsage(data.usage ?? null);
+      selectSession(data.id);
+    } catch (error) {
+      console.error("Failed to load session:", error);
+    }
+  };
+
+  const startNewSession = () => {
+    if (inFlightRef.current) return;
+    selectSession(null);
+    messagesRef.current = [];
+    setMessages([]);
+    setHudState({});
+    setSessionUsage(null);
+    deniedRequestIdsRef.current = [];
+  };
+
+  const deleteCurrentSession = async () => {
+    const id = sessionIdRef.current;
+    if (!id || inFlightRef.current) return;
+    await fetch(`/api/sessions/${encodeURIComponent(id)}`, { method: "DELETE" }).catch(() => undefined);
+    startNewSession();
+    void refreshSessions();
+  };
+
+  const choosePreferredProvider = (label: string) => {
+    preferredProviderRef.current = label;
+    setPreferredProvider(label);
+    if (label) localStorage.setItem(PROVIDER_STORAGE_KEY, label);
+    else localStorage.removeItem(PROVIDER_STORAGE_KEY);
+  };
+
+  const refreshProviderHealth = async () => {
+    try {
+      const response = await fetch("/api/providers/health");
+      if (!response.ok) return;
+      const data = await response.json();
+      // The list is worst first, so a model configured under two keys shows its healthiest one
+      setProviderHealth(Object.fromEntries((data.providers || []).map((h: ProviderHealth) => [h.label, h])));
+    } catch {
+      /* health is informational */
+    }
+  };
+
+  useEffect(() => {
+    void refreshProviderHealth();
+    fetch("/api/providers")
+      .then((response) => (response.ok ? response.json() : { providers: [] }))
+      .then((data) => {
+        const options: ProviderOption[] = data.providers || [];
+        setProviderOptions(options);
+        const saved = localStorage.getItem(PROVIDER_STORAGE_KEY) || "";
+        // Forget a saved choice whose key has since been removed
+        choosePreferredProvider(options.some((o) => o.label === saved) ? saved : "");
+      })
+      .catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    const saved = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (saved) void openSession(saved);
+    void refreshSessions();
+    // Runs once on mount; openSession only uses refs and state setters
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   const sendMessage = async (text: string) => {
     const trimmed = text.trim();
     if (!trimmed) return;
@@ -74,11 +517,6 @@ export default function Home() {
     }
     inFlightRef.current = true;
 
-    const history = messagesRef.current.map((m) => ({
-      role: m.role,
-      content: m.content,
-    }));
-
     const userMessage: Message = {
       id: crypto.randomUUID(),
       role: "user",
@@ -94,13 +532,22 @@ export default function Home() {
     setInput("");
     setIsLoading(true);
 
+    const turnId = crypto.randomUUID();
+    const preferred = providerOptions.find((o) => o.label === preferredProviderRef.current);
+    const deniedRequestIds = deniedRequestIdsRef.current;
+    deniedRequestIdsRef.current = [];
+
     try {
       const response = await fetch("/api/agent", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           message: userMessage.content,
-          history,
+          session_id: sessionIdRef.current,
+          ...(preferred ? { provider: preferred.provider, model: preferred.model } : {}),
+          stream_id: streamIdRef.current,
+          turn_id: turnId,
+          denied_request_ids: deniedRequestIds,
         }),
       });
 
@@ -110,91 +557,57 @@ export default function Home() {
       }
 
       const data = await response.json();
-
-      const hudUpdates: HudState = {};
-      const chatComponents: UIComponent[] = [];
-      let nextActiveTab: HudTab | null = null;
-      // Higher number = higher priority for auto-activating the HUD tab.
-      const hudTabOrder: Record<HudTab, number> = {
-        workspace: 1,
-        code: 2,
-        diff: 3,
-        terminal: 4,
-      };
-
-      const maybeSetActiveTab = (tab: HudTab) => {
-        if (!nextActiveTab) {
-          nextActiveTab = tab;
-          return;
-        }
-        if (hudTabOrder[tab] > hudTabOrder[nextActiveTab]) {
-          nextActiveTab = tab;
-        }
-      };
-
-      for (const comp of (data.components || []) as UIComponent[]) {
-        switch (comp.type) {
-          case "workspace_tree":
-            hudUpdates.workspace = comp;
-            maybeSetActiveTab("workspace");
-            break;
-          case "code_panel":
-            hudUpdates.code = comp;
-            maybeSetActiveTab("code");
-            break;
-          case "terminal_stream":
-            hudUpdates.terminal = comp;
-            maybeSetActiveTab("terminal");
-            break;
-          case "diff_review":
-            hudUpdates.diff = comp;
-            maybeSetActiveTab("diff");
-            break;
-          default:
-            chatComponents.push(comp);
-        }
-      }
-
-      if (Object.keys(hudUpdates).length > 0) {
-        setHudState((prev) => ({ ...prev, ...hudUpdates }));
-        if (nextActiveTab) setActiveHudTab(nextActiveTab);
-      }
-
-      const assistantMessage: Message = {
-        id: crypto.randomUUID(),
+      if (data.session_id && data.session_id !== sessionIdRef.current) selectSession(data.session_id);
+      if (data.usage?.session) setSessionUsage(data.usage.session);
+      void refreshSessions();
+
+      const wasStreamed = streamedTurnsRef.current.delete(turnId);
+      // Streamed turns already routed their components as they arrived
+      const chatComponents = wasStreamed
+        ? (data.components || []).filter((c: UIComponent) => !HUD_TAB_FOR_COMPONENT[c.type])
+        : applyHudComponents((data.components || []) as UIComponent[]);
+
+      // The final response is authoritative: it replaces the streamed draft
+      upsertMessage(turnId, (m) => ({
+        id: turnId,
         role: "assistant",
         content: data.content || "",
         components: chatComponents,
-        timestamp: new Date(),
-      };
-
-      setMessages((prev) => {
-        const next = [...prev, assistantMessage];
-        messagesRef.current = next;
-        return next;
-      });
+        tools: m?.tools,
+        usage: data.usage?.request,
+        provider: data.provider,
+        timestamp: m?.timestamp ?? new Date(),
+      }));
     } catch (error: any) {
       console.error("Error:", error);
-      const errorMessage: Message = {
-        id: crypto.randomUUID(),
+      streamedTurnsRef.current.delete(turnId);
+      upsertMessage(turnId, (m) => ({
+        id: turnId,
         role: "assistant",
         content: error?.message || "Sorry, something went wrong. Please try again.",
-        timestamp: new Date(),
-      };
-      setMessages((prev) => {
-        const next = [...prev, errorMessage];
-        messagesRef.current = next;
-        return next;
-      });
+        tools: m?.tools,
+        timestamp: m?.timestamp ?? new Date(),
+      }));
     } finally {
       setIsLoading(false);
       inFlightRef.current = false;
+      // Failures change circuit state too
+      void refreshProviderHealth();
 
       const pending = pendingQueueRef.current.shift();
       if (pending) void sendMessage(pending);
     }
   };
 
+  const setDiffStatus = (status: "applied" | "discarded") => {
+    setHudState((prev) =>
+      prev.diff ? { ...prev, diff: { ...prev.diff, props: { ...prev.diff.props, status } } } : prev
+    );
+  };
+
+  // Shown next to the picker; differs from the choice when a fallback answered
+  const answeredBy = [...messages].reverse().find((m) => m.provider)?.provider;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     await sendMessage(input);
@@ -214,11 +627,14 @@ export default function Home() {
           </div>
         );
       case "code":
+        if (hudState.code?.type === "file_preview") return <FilePreview {...hudState.code.props} />;
         return hudState.code ? (
           <div className="space-y-2">
             {hudState.code.props?.truncated && (
               <div className="text-xs text-amber-400 px-3 py-2 bg-amber-950/20 border border-amber-500/20 rounded-lg">
-                Note: this file was truncated for the model ({String(hudState.code.props?.omittedChars || 0)} chars omitted).
+                {hudState.code.props?.totalLines
+                  ? `Note: the model has read lines ${hudState.code.props.line ?? 1}-${hudState.code.props.endLine} of ${hudState.code.props.totalLines} (highlighted).`
+                  : `Note: this file was truncated for the model (${String(hudState.code.props?.omittedChars || 0)} chars omitted).`}
               </div>
             )}
             <CodePanel {...hudState.code.props} />
@@ -228,17 +644,32 @@ export default function Home() {
             Ask me to read a file to populate the code view.
           </div>
         );
-      case "terminal":
-        return hudState.terminal ? (
-          <TerminalStream {...hudState.terminal.props} />
-        ) : (
-          <div className="text-sm text-zinc-500 p-4">
-            Run a command (it will appear here after approval).
-          </div>
-        );
+      case "terminal": {
+        if (!hudState.terminal) {
+          return (
+            <div className="text-sm text-zinc-500 p-4">
+              Run a command (it will appear here after approval).
+            </div>
+          );
+        }
+        // runId only routes stream events to the run shown; a new run mounts a fresh terminal
+        const { runId, ...terminalProps } = hudState.terminal.props;
+        return <TerminalStream key={runId} {...terminalProps} />;
+      }
       case "diff":
         return hudState.diff ? (
-          <DiffReview {...hudState.diff.props} />
+          <DiffReview
+            // Remount per proposal so review state doesn't leak between diffs
+            key={hudState.diff.props.request_id || hudState.diff.props.filename}
+            {...hudState.diff.props}
+            // Persist the outcome so switching HUD tabs doesn't re-offer Apply
+            onApprove={() => setDiffStatus("applied")}
+            onReject={() => {
+              setDiffStatus("discarded");
+              const requestId = hudState.diff?.props.request_id;
+              if (requestId) deniedRequestIdsRef.current.push(requestId);
+            }}
+          />
         ) : (
           <div className="text-sm text-zinc-500 p-4">
             No diff to review yet.
@@ -255,13 +686,23 @@ export default function Home() {
         return <WorkspaceTree key={index} {...component.props} />;
       case "code_panel":
         return <CodePanel key={index} {...component.props} />;
+      case "file_preview":
+        return <FilePreview key={index} {...component.props} />;
       case "approval_card":
         return (
           <ApprovalCard
             key={index}
             {...component.props}
-            onExecutionComplete={(output, status) => {
+            streamId={streamId}
+            onDeny={() => deniedRequestIdsRef.current.push(component.props.request_id)}
+            onExecutionStart={(runId) => startTerminalRun(runId, component.props.command)}
+            onExecutionComplete={(output, status, runId) => {
               const terminalStatus = status === "success" ? "success" : "error";
+              // Streamed runs already hold the live output; only settle the status
+              if (streamedRunsRef.current.delete(runId)) {
+                updateTerminalRun(runId, (props) => ({ ...props, status: terminalStatus }));
+                return;
+              }
               setHudState((prev) => ({
                 ...prev,
                 terminal: {
@@ -270,6 +711,7 @@ export default function Home() {
                     lines: String(output || "").split(/\r?\n/),
                     status: terminalStatus,
                     command: component.props.command,
+                    runId,
                   },
                 },
               }));
@@ -281,6 +723,18 @@ export default function Home() {
         return <TerminalStream key={index} {...component.props} />;
       case "diff_review":
         return <DiffReview key={index} {...component.props} />;
+      case "search_results":
+        return (
+          <SearchResults key={index} {...component.props} onOpen={(path, line) => void openFileAt(path, line)} />
+        );
+      case "symbol_outline":
+        return (
+          <SymbolOutline
+            key={index}
+            {...component.props}
+            onOpen={(path, line, endLine) => void openFileAt(path, line, endLine)}
+          />
+        );
       default:
         return null;
     }
@@ -299,6 +753,83 @@ export default function Home() {
           </span>
         </div>
         <div className="flex items-center gap-4 text-sm text-zinc-500">
+          <select
+            value={preferredProvider}
+            onChange={(e) => choosePreferredProvider(e.target.value)}
+            disabled={isLoading}
+            title="Preferred provider (others are used as fallback)"
+            className="max-w-[240px] bg-zinc-800 border border-zinc-700 rounded-md px-2 py-1 text-xs text-zinc-200 focus:outline-none"
+          >
+            <option value="">Auto</option>
+            {Array.from(new Set(providerOptions.map((o) => o.provider))).map((provider) => (
+              <optgroup key={provider} label={provider}>
+                {providerOptions
+                  .filter((o) => o.provider === provider)
+                  .map((o) => {
+                    const health = providerHealth[o.label];
+                    return (
+                      <option
+                        key={o.label}
+                        value={o.label}
+                        title={health?.lastError ? `${health.lastError.class}: ${health.lastError.message}` : undefined}
+                      >
+                        {o.model}
+                        {health ? HEALTH_SUFFIX[health.state] : ""}
+                        {health?.avgLatencyMs ? ` · ${(health.avgLatencyMs / 1000).toFixed(1)}s` : ""}
+                      </option>
+                    );
+                  })}
+              </optgroup>
+            ))}
+          </select>
+          {answeredBy && (
+            <span
+              className={`text-xs font-mono ${
+                preferredProvider && answeredBy !== preferredProvider ? "text-amber-400" : "text-zinc-500"
+              }`}
+              title="Provider that answered the last message"
+            >
+              {answeredBy}
+            </span>
+          )}
+          {sessionUsage && (
+            <span className="text-xs font-mono" title="Tokens and estimated cost for this conversation">
+              {formatUsage(sessionUsage)}
+            </span>
+          )}
+          <div className="flex items-center gap-1.5">
+            <select
+              value={sessionId ?? ""}
+              onChange={(e) => (e.target.value ? void openSession(e.target.value) : startNewSession())}
+              disabled={isLoading}
+              className="max-w-[220px] bg-zinc-800 border border-zinc-700 rounded-md px-2 py-1 text-xs text-zinc-200 focus:outline-none"
+            >
+              <option value="">New conversation</option>
+              {sessions.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.title} ({s.message_count})
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={startNewSession}
+              disabled={isLoading}
+              title="New chat"
+              className="p-1 rounded-md hover:bg-zinc-800 hover:text-zinc-200 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+            {sessionId && (
+              <button
+                onClick={() => void deleteCurrentSession()}
+                disabled={isLoading}
+                title="Delete conversation"
+                className="p-1 rounded-md hover:bg-zinc-800 hover:text-red-400 disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
           <div className="flex items-center gap-1.5">
             <FolderTree className="w-4 h-4" />
             <span>Workspace</span>
@@ -377,13 +908,37 @@ export default function Home() {
                         : "bg-zinc-800 text-zinc-100"
                     }`}
                   >
+                    {message.tools && message.tools.length > 0 && (
+                      <div className="mb-2 space-y-0.5">
+                        {message.tools.map((tool, i) => (
+                          <div
+                            key={i}
+                            className={`text-xs font-mono ${
+                              tool.status === "error"
+                                ? "text-red-400"
+                                : tool.status === "running"
+                                  ? "text-amber-400 animate-pulse"
+                                  : "text-zinc-500"
+                            }`}
+                          >
+                            {tool.status === "running" ? "⏳" : tool.status === "error" ? "✕" : "✓"} {tool.name}
+                            {tool.error ? ` — ${tool.error}` : ""}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     <p className="whitespace-pre-wrap">{message.content}</p>
                     {message.components?.map((comp, i) => renderComponent(comp, i))}
+                    {(message.usage || message.provider) && (
+                      <div className="mt-2 text-[10px] font-mono text-zinc-500">
+                        {[message.provider, message.usage && formatUsage(message.usage)].filter(Boolean).join(" · ")}
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
 
-              {isLoading && (
+              {isLoading && !messages.some((m) => m.streaming) && (
                 <div className="flex justify-start">
                   <div className="bg-zinc-800 rounded-2xl px-4 py-3">
                     <Loader2 className="w-5 h-5 animate-spin text-amber-500" />
@@ -7,31 +7,67 @@ export const ApprovalCardSchema = z.object({
   action: z.string(),
   reason: z.string(),
   command: z.string(),
+  cwd: z.string().optional(),
   request_id: z.string(),
+  policy_rule: z.string().optional(),
+  policy_effect: z.enum(["allow", "deny", "require_approval"]).optional(),
+  policy_message: z.string().optional(),
+  /** Output of a command that policy auto-approved and already ran. */
+  output: z.string().optional(),
+  exit_code: z.number().nullable().optional(),
 });
 
 export type ApprovalCardProps = z.infer<typeof ApprovalCardSchema> & {
+  /** SSE stream id; when set, live output is published to /api/stream under a run id. */
+  streamId?: string | null;
+  /** Set on cards reopened from a saved session, which are read-only: the denial it recorded, or no decision. */
+  restored?: "denied" | "undecided";
   onApprove?: (token: string) => void;
-  onDeny?: () => void;
-  onExecutionComplete?: (output: string, status: "success" | "error") => void;
+  onDeny?: (reason?: string) => void;
+  onExecutionStart?: (runId: string) => void;
+  onExecutionComplete?: (output: string, status: "success" | "error", runId: string) => void;
 };
 
-type Status = "pending" | "approving" | "approved" | "executing" | "success" | "denied" | "error";
+type Status = "pending" | "approving" | "approved" | "executing" | "success" | "denied" | "error" | "closed";
 
 export function ApprovalCard({
   action,
   reason,
   command,
+  cwd,
   request_id,
+  policy_rule,
+  policy_effect,
+  policy_message,
+  output: initialOutput,
+  exit_code,
+  streamId,
+  restored,
   onApprove,
   onDeny,
+  onExecutionStart,
   onExecutionComplete,
 }: ApprovalCardProps) {
-  const [status, setStatus] = useState<Status>("pending");
-  const [error, setError] = useState<string | null>(null);
-  const [output, setOutput] = useState<string[]>([]);
-  const outputRef = useRef<string[]>([]);
+  // Requests decided by policy, and cards from a saved session, render in their final state
+  const [status, setStatus] = useState<Status>(() =>
+    policy_effect === "deny" || restored === "denied"
+      ? "denied"
+      : policy_effect === "allow" && exit_code !== undefined
+        ? exit_code === 0 ? "success" : "error"
+        : restored ? "closed" : "pending"
+  );
+  const [error, setError] = useState<string | null>(() =>
+    policy_effect === "allow" && exit_code !== undefined && exit_code !== 0
+      ? exit_code === null ? "Command did not exit normally" : `Command exited with code ${exit_code}`
+      : null
+  );
+  const [output, setOutput] = useState<string[]>(() =>
+    initialOutput !== undefined ? ["$ " + command, ...initialOutput.split("\n")] : []
+  );
+  const outputRef = useRef<string[]>(output);
   const approveInFlightRef = useRef(false);
+  const [denyOpen, setDenyOpen] = useState(false);
+  const [denyReason, setDenyReason] = useState("");
 
   // Always use `setOutputLines` so `outputRef` stays in sync with React state.
   const setOutputLines = (next: string[]) => {
@@ -45,6 +81,7 @@ export function ApprovalCard({
 
     setStatus("approving");
     setError(null);
+    const runId = crypto.randomUUID();
 
     try {
       // Step 1: Get approval token
@@ -72,25 +109,33 @@ export function ApprovalCard({
       // Step 2: Execute the command
       setStatus("executing");
       setOutputLines(["$ " + command, "Executing..."]);
+      onExecutionStart?.(runId);
 
       const execResponse = await fetch("/api/execute", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ command, approval_token: token }),
+        body: JSON.stringify({
+          command,
+          cwd,
+          approval_token: token,
+          ...(streamId ? { stream_id: streamId, run_id: runId } : {}),
+        }),
       });
 
       const execData = await execResponse.json();
 
-      if (execData.success) {
-        const outputText = typeof execData.output === "string" 
-          ? execData.output 
-          : execData.output?.content?.[0]?.text || JSON.stringify(execData.output);
+      const outputText = typeof execData.output === "string"
+        ? execData.output
+        : execData.output?.content?.[0]?.text || (execData.output ? JSON.stringify(execData.output) : "");
 
+      if (execData.success) {
         const lines = ["$ " + command, ...outputText.split("\n")];
         setOutputLines(lines);
         setStatus("success");
-        onExecutionComplete?.(lines.join("\n"), "success");
+        onExecutionComplete?.(lines.join("\n"), "success", runId);
       } else {
+        // Keep whatever the command printed before it failed
+        if (outputText) setOutputLines(["$ " + command, ...outputText.split("\n")]);
         throw new Error(execData.error || "Execution failed");
       }
     } catch (err: any) {
@@ -99,15 +144,37 @@ export function ApprovalCard({
       setError(message);
       const next = [...outputRef.current, `❌ Error: ${message}`];
       setOutputLines(next);
-      onExecutionComplete?.(next.join("\n"), "error");
+      onExecutionComplete?.(next.join("\n"), "error", runId);
     } finally {
       approveInFlightRef.current = false;
     }
   };
 
-  const handleDeny = () => {
-    setStatus("denied");
-    onDeny?.();
+  const handleDeny = async () => {
+    if (approveInFlightRef.current) return;
+    approveInFlightRef.current = true;
+    const reason = denyReason.trim() || undefined;
+    setError(null);
+
+    try {
+      // Records the denial so the model hears about it on the next turn
+      const denyResponse = await fetch("/api/deny", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ request_id, reason }),
+      });
+      if (!denyResponse.ok) {
+        const denyData = await denyResponse.json().catch(() => ({}));
+        throw new Error(denyData.error || "Failed to record denial");
+      }
+      setStatus("denied");
+      onDeny?.(reason);
+    } catch (err: any) {
+      // The request is still open on the server, so the card stays actionable
+      setError(String(err?.message || "Failed to record denial"));
+    } finally {
+      approveInFlightRef.current = false;
+    }
   };
 
   const statusColors: Record<Status, string> = {
@@ -118,6 +185,7 @@ export function ApprovalCard({
     success: "border-green-500/50 bg-green-950/20",
     denied: "border-red-500/50 bg-red-950/20",
     error: "border-red-500/50 bg-red-950/20",
+    closed: "border-zinc-700 bg-zinc-900/40",
   };
 
   return (
@@ -130,6 +198,7 @@ export function ApprovalCard({
         {status === "success" && <span className="text-green-500 text-lg">✓</span>}
         {status === "denied" && <span className="text-red-500 text-lg">✕</span>}
         {status === "error" && <span className="text-red-500 text-lg">❌</span>}
+        {status === "closed" && <span className="text-zinc-500 text-lg">🕘</span>}
         <h3 className="font-semibold text-zinc-200">
           {status === "pending" && "Permission Required"}
           {status === "approving" && "Generating Token..."}
@@ -138,6 +207,7 @@ export function ApprovalCard({
           {status === "success" && "Completed"}
           {status === "denied" && "Denied"}
           {status === "error" && "Error"}
+          {status === "closed" && "From a saved session"}
         </h3>
       </div>
 
@@ -149,13 +219,27 @@ export function ApprovalCard({
         <p className="text-sm text-zinc-300">
           <span className="text-zinc-500">Reason:</span> {reason}
         </p>
+        <p className="text-sm text-zinc-300">
+          <span className="text-zinc-500">Directory:</span>{" "}
+          <code className="text-xs font-mono text-zinc-400">{cwd || "."}</code>
+        </p>
         <div className="bg-zinc-900 rounded p-2 mt-2">
           <code className="text-xs text-green-400 font-mono break-all">{command}</code>
         </div>
+        {policy_rule && (
+          <p className="text-xs text-zinc-500">
+            Policy:{" "}
+            <code className="font-mono text-zinc-400">{policy_rule}</code>
+            {policy_effect === "allow" && " — auto-approved"}
+            {policy_effect === "deny" && " — blocked"}
+            {policy_effect === "require_approval" && " — requires approval"}
+            {policy_message && <span className="block mt-0.5 text-zinc-400">{policy_message}</span>}
+          </p>
+        )}
       </div>
 
       {/* Buttons */}
-      {status === "pending" && (
+      {status === "pending" && !denyOpen && (
         <div className="flex gap-2">
           <button
             onClick={handleApprove}
@@ -164,7 +248,7 @@ export function ApprovalCard({
             ✓ Authorize
           </button>
           <button
-            onClick={handleDeny}
+            onClick={() => setDenyOpen(true)}
             className="flex-1 bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md font-medium transition-colors"
           >
             ✕ Deny
@@ -172,6 +256,44 @@ export function ApprovalCard({
         </div>
       )}
 
+      {status === "pending" && denyOpen && (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void handleDeny();
+          }}
+        >
+          <input
+            type="text"
+            autoFocus
+            value={denyReason}
+            onChange={(e) => setDenyReason(e.target.value)}
+            placeholder="Reason (optional, shared with the AI)"
+            className="flex-1 bg-zinc-900 border border-zinc-700 rounded-md px-3 py-2 text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-red-500/50"
+          />
+          <button
+            type="submit"
+            className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md font-medium transition-colors"
+          >
+            Deny
+          </button>
+          <button
+            type="button"
+            onClick={() => setDenyOpen(false)}
+            className="bg-zinc-700 hover:bg-zinc-600 text-white px-4 py-2 rounded-md font-medium transition-colors"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {status === "closed" && (
+        <p className="text-xs text-zinc-500">This request can no longer be decided here. Ask again to run the command.</p>
+      )}
+
+      {status === "pending" && error && <div className="mt-2 text-red-400 text-sm">❌ {error}</div>}
+
       {/* Terminal Output */}
       {output.length > 0 && (status === "executing" || status === "success" || status === "error") && (
         <div className="mt-4 bg-zinc-950 rounded-lg p-3 font-mono text-xs max-h-48 overflow-y-auto">
@@ -196,6 +318,12 @@ export function ApprovalCard({
       {status === "error" && error && !output.some(l => l.includes(error)) && (
         <div className="mt-2 text-red-400 text-sm">❌ {error}</div>
       )}
+
+      {status === "denied" && denyReason.trim() && (
+        <div className="text-xs text-zinc-500">
+          <p>Reason: {denyReason.trim()}</p>
+        </div>
+      )}
     </div>
   );
 }
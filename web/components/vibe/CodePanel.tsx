@@ -1,7 +1,9 @@
 "use client";
 
+import { useEffect, useRef } from "react";
 import { z } from "zod";
 import dynamic from "next/dynamic";
+import type { OnMount } from "@monaco-editor/react";
 
 const Editor = dynamic(() => import("@monaco-editor/react"), { ssr: false });
 
@@ -10,18 +12,50 @@ export const CodePanelSchema = z.object({
   language: z.string(),
   filename: z.string(),
   readOnly: z.boolean().optional(),
+  /** 1-based line to scroll to and highlight; with `endLine`, the first line of a range. */
+  line: z.number().optional(),
+  endLine: z.number().optional(),
 });
 
 export type CodePanelProps = z.infer<typeof CodePanelSchema> & {
   onChange?: (value: string) => void;
 };
 
-export function CodePanel({ code, language, filename, readOnly = true, onChange }: CodePanelProps) {
+type Editor = Parameters<OnMount>[0];
+
+export function CodePanel({ code, language, filename, readOnly = true, line, endLine, onChange }: CodePanelProps) {
+  const editorRef = useRef<Editor | null>(null);
+  const decorationsRef = useRef<string[]>([]);
+
+  const revealLine = () => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const last = Math.max(endLine ?? line ?? 0, line ?? 0);
+    const highlights = line
+      ? [
+          {
+            range: { startLineNumber: line, startColumn: 1, endLineNumber: last, endColumn: 1 },
+            options: { isWholeLine: true, className: "vibe-highlight-line" },
+          },
+        ]
+      : [];
+    decorationsRef.current = editor.deltaDecorations(decorationsRef.current, highlights);
+    // Monaco shows the start of a range taller than the editor
+    if (line) editor.revealLinesInCenter(line, last);
+  };
+
+  // Re-run when the same panel is pointed at another range or file
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(revealLine, [line, endLine, code]);
+
   return (
     <div className="bg-zinc-900 border border-zinc-800 rounded-lg overflow-hidden my-3">
       <div className="flex items-center gap-2 px-3 py-2 bg-zinc-800/50 border-b border-zinc-700">
         <span className="text-sm">📄</span>
-        <span className="text-sm font-mono text-zinc-300">{filename}</span>
+        <span className="text-sm font-mono text-zinc-300">
+          {filename}
+          {line ? <span className="text-zinc-500">:{endLine && endLine > line ? `${line}-${endLine}` : line}</span> : null}
+        </span>
         <span className="text-xs text-zinc-500 ml-auto">{language}</span>
       </div>
       <Editor
@@ -39,6 +73,10 @@ export function CodePanel({ code, language, filename, readOnly = true, onChange
           padding: { top: 8 },
         }}
         onChange={(value) => onChange?.(value || "")}
+        onMount={(editor) => {
+          editorRef.current = editor;
+          revealLine();
+        }}
       />
     </div>
   );
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { z } from "zod";
 
 export const DiffReviewSchema = z.object({
@@ -14,15 +14,111 @@ export const DiffReviewSchema = z.object({
       lineNumber: z.number().optional(),
     })),
   })),
+  reason: z.string().optional(),
+  request_id: z.string().optional(),
+  status: z.enum(["pending", "applied", "discarded"]).optional(),
 });
 
 export type DiffReviewProps = z.infer<typeof DiffReviewSchema> & {
+  /** Set on diffs reopened from a saved session, which are read-only: the rejection it recorded, or no decision. */
+  restored?: "denied" | "undecided";
   onApprove?: () => void;
   onReject?: () => void;
 };
 
-export function DiffReview({ filename, hunks, onApprove, onReject }: DiffReviewProps) {
+type Status = "pending" | "applying" | "applied" | "discarded" | "error" | "closed";
+
+export function DiffReview({
+  filename,
+  hunks,
+  reason,
+  request_id,
+  status: initialStatus = "pending",
+  restored,
+  onApprove,
+  onReject,
+}: DiffReviewProps) {
   const [expanded, setExpanded] = useState(true);
+  const [status, setStatus] = useState<Status>(() =>
+    initialStatus === "pending" && restored ? (restored === "denied" ? "discarded" : "closed") : initialStatus
+  );
+  const [error, setError] = useState<string | null>(null);
+  const applyInFlightRef = useRef(false);
+
+  // Proposals from the agent carry a request_id and are written via an approval token
+  const handleApply = async () => {
+    if (!request_id) {
+      onApprove?.();
+      return;
+    }
+    if (applyInFlightRef.current) return;
+    applyInFlightRef.current = true;
+    setStatus("applying");
+    setError(null);
+
+    try {
+      const approveResponse = await fetch("/api/approve", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ request_id }),
+      });
+      if (!approveResponse.ok) {
+        throw new Error("Failed to get approval token");
+      }
+      const { approval_token } = await approveResponse.json();
+      if (!approval_token) {
+        throw new Error("No token received");
+      }
+
+      const applyResponse = await fetch("/api/apply", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ request_id, approval_token }),
+      });
+      const applyData = await applyResponse.json();
+      if (!applyData.success) {
+        throw new Error(applyData.error || "Failed to apply changes");
+      }
+
+      setStatus("applied");
+      onApprove?.();
+    } catch (err: any) {
+      setStatus("error");
+      setError(String(err?.message || "Failed to apply changes"));
+    } finally {
+      applyInFlightRef.current = false;
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (applyInFlightRef.current) return;
+    applyInFlightRef.current = true;
+    setError(null);
+
+    try {
+      if (request_id) {
+        // Records the rejection so the model hears about it next turn
+        const denyResponse = await fetch("/api/deny", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ request_id, reason: "discarded the proposed diff" }),
+        });
+        if (!denyResponse.ok) {
+          const denyData = await denyResponse.json().catch(() => ({}));
+          throw new Error(denyData.error || "Failed to discard changes");
+        }
+      }
+      setStatus("discarded");
+      onReject?.();
+    } catch (err: any) {
+      // The proposal is still open on the server, so it stays reviewable
+      setError(String(err?.message || "Failed to discard changes"));
+    } finally {
+      applyInFlightRef.current = false;
+    }
+  };
+
+  const reviewable = Boolean(request_id || onApprove || onReject);
 
   const lineColors = {
     add: "bg-green-950/50 text-green-400",
@@ -45,6 +141,9 @@ export function DiffReview({ filename, hunks, onApprove, onReject }: DiffReviewP
         <span className="text-xs">{expanded ? "▼" : "▶"}</span>
         <span className="text-sm">📝</span>
         <span className="text-sm font-mono text-zinc-300">{filename}</span>
+        {status === "applied" && <span className="text-xs text-green-400">✓ applied</span>}
+        {status === "discarded" && <span className="text-xs text-zinc-500">discarded</span>}
+        {status === "closed" && <span className="text-xs text-zinc-500">not reviewed</span>}
         <span className="text-xs text-zinc-500 ml-auto">
           {hunks.reduce((acc, h) => acc + h.lines.filter(l => l.type === "add").length, 0)} additions,{" "}
           {hunks.reduce((acc, h) => acc + h.lines.filter(l => l.type === "remove").length, 0)} deletions
@@ -53,6 +152,9 @@ export function DiffReview({ filename, hunks, onApprove, onReject }: DiffReviewP
 
       {expanded && (
         <>
+          {reason && (
+            <div className="px-3 py-2 text-xs text-zinc-400 border-b border-zinc-800">{reason}</div>
+          )}
           <div className="overflow-x-auto">
             {hunks.map((hunk, hi) => (
               <div key={hi} className="border-b border-zinc-800 last:border-0">
@@ -74,19 +176,21 @@ export function DiffReview({ filename, hunks, onApprove, onReject }: DiffReviewP
             ))}
           </div>
 
-          {(onApprove || onReject) && (
+          {reviewable && (status === "pending" || status === "applying") && (
             <div className="flex gap-2 p-3 border-t border-zinc-800">
-              {onApprove && (
+              {(request_id || onApprove) && (
                 <button
-                  onClick={onApprove}
-                  className="flex-1 bg-green-600 hover:bg-green-700 text-white px-3 py-1.5 rounded text-sm font-medium transition-colors"
+                  onClick={handleApply}
+                  disabled={status === "applying"}
+                  className="flex-1 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-3 py-1.5 rounded text-sm font-medium transition-colors"
                 >
-                  Apply Changes
+                  {status === "applying" ? "Applying..." : "Apply Changes"}
                 </button>
               )}
-              {onReject && (
+              {(request_id || onReject) && (
                 <button
-                  onClick={onReject}
+                  onClick={handleDiscard}
+                  disabled={status === "applying"}
                   className="flex-1 bg-zinc-700 hover:bg-zinc-600 text-white px-3 py-1.5 rounded text-sm font-medium transition-colors"
                 >
                   Discard
@@ -94,6 +198,16 @@ export function DiffReview({ filename, hunks, onApprove, onReject }: DiffReviewP
               )}
             </div>
           )}
+
+          {status === "closed" && (
+            <div className="px-3 py-2 border-t border-zinc-800 text-xs text-zinc-500">
+              From a saved session; this change can no longer be applied here. Ask again to propose it.
+            </div>
+          )}
+
+          {(status === "error" || status === "pending") && error && (
+            <div className="px-3 py-2 border-t border-zinc-800 text-red-400 text-sm">❌ {error}</div>
+          )}
         </>
       )}
     </div>
@@ -0,0 +1,91 @@
+"use client";
+
+import { z } from "zod";
+
+export const FilePreviewSchema = z.object({
+  path: z.string(),
+  kind: z.enum(["image", "binary", "large_text"]),
+  size: z.number(),
+  mimeType: z.string().optional(),
+  description: z.string().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  hexPreview: z.string().optional(),
+  /** Pieces of a large text file; `startLine` is unknown for the tail. */
+  sections: z
+    .array(z.object({ label: z.string(), startLine: z.number().optional(), text: z.string() }))
+    .optional(),
+});
+
+export type FilePreviewProps = z.infer<typeof FilePreviewSchema>;
+
+function formatSize(size: number): string {
+  if (size >= 1_000_000) return `${(size / 1_000_000).toFixed(1)} MB`;
+  if (size >= 1_000) return `${(size / 1_000).toFixed(1)} KB`;
+  return `${size} B`;
+}
+
+function TextSection({ label, startLine, text }: { label: string; startLine?: number; text: string }) {
+  return (
+    <div>
+      <div className="text-xs text-zinc-500 mb-1">{label}</div>
+      <pre className="max-h-72 overflow-auto bg-zinc-950 border border-zinc-800 rounded p-2 text-xs font-mono text-zinc-300">
+        {text.split("\n").map((line, i) => (
+          <div key={i} className="flex">
+            <span className="w-14 shrink-0 pr-2 text-right text-zinc-600 select-none">
+              {startLine !== undefined ? startLine + i : ""}
+            </span>
+            <span className="whitespace-pre">{line || " "}</span>
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
+
+export function FilePreview({ path, kind, size, mimeType, description, width, height, hexPreview, sections }: FilePreviewProps) {
+  const filename = path.split(/[/\\]/).pop() || path;
+  const details = [
+    description || (kind === "large_text" ? "Large text file" : undefined),
+    width !== undefined && height !== undefined ? `${width}×${height}` : undefined,
+    formatSize(size),
+  ].filter(Boolean);
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-lg overflow-hidden my-3">
+      <div className="flex items-center gap-2 px-3 py-2 bg-zinc-800/50 border-b border-zinc-700">
+        <span className="text-sm">{kind === "image" ? "🖼️" : kind === "binary" ? "📦" : "📄"}</span>
+        <span className="text-sm font-mono text-zinc-300 truncate">{filename}</span>
+        <span className="text-xs text-zinc-500 ml-auto shrink-0">{details.join(" · ")}</span>
+      </div>
+      <div className="p-3 space-y-3">
+        {kind === "image" && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={`/api/file?path=${encodeURIComponent(path)}&raw=1`}
+            alt={filename}
+            className="max-w-full max-h-96 mx-auto rounded bg-[repeating-conic-gradient(#27272a_0%_25%,#18181b_0%_50%)] bg-[length:16px_16px]"
+          />
+        )}
+        {kind === "binary" && (
+          <>
+            <p className="text-xs text-zinc-500">
+              Binary file{mimeType ? ` (${mimeType})` : ""}; it can&apos;t be shown as text. First bytes:
+            </p>
+            {hexPreview && (
+              <pre className="overflow-x-auto bg-zinc-950 border border-zinc-800 rounded p-2 text-xs font-mono text-zinc-400">
+                {hexPreview}
+              </pre>
+            )}
+          </>
+        )}
+        {kind === "large_text" && (
+          <>
+            <p className="text-xs text-amber-400">Too large to open in the editor; only part of the file was read.</p>
+            {sections?.map((section) => <TextSection key={section.label} {...section} />)}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { z } from "zod";
+
+export const SearchResultsSchema = z.object({
+  query: z.string(),
+  regex: z.boolean().optional(),
+  path: z.string().optional(),
+  matches: z.array(z.object({
+    path: z.string(),
+    line: z.number(),
+    column: z.number(),
+    text: z.string(),
+    before: z.array(z.string()),
+    after: z.array(z.string()),
+  })),
+  filesSearched: z.number().optional(),
+  truncated: z.boolean().optional(),
+});
+
+export type SearchResultsProps = z.infer<typeof SearchResultsSchema> & {
+  onOpen?: (path: string, line: number) => void;
+};
+
+type Match = SearchResultsProps["matches"][number];
+
+function MatchRow({ match, onOpen }: { match: Match; onOpen?: (path: string, line: number) => void }) {
+  const firstLine = match.line - match.before.length;
+  const lines = [...match.before, match.text, ...match.after];
+  return (
+    <button
+      type="button"
+      onClick={() => onOpen?.(match.path, match.line)}
+      disabled={!onOpen}
+      title={onOpen ? `Open ${match.path}:${match.line}` : undefined}
+      className="block w-full text-left font-mono text-xs rounded hover:bg-zinc-800/70 disabled:hover:bg-transparent py-1"
+    >
+      {lines.map((text, i) => {
+        const lineNumber = firstLine + i;
+        const isHit = lineNumber === match.line;
+        return (
+          <div key={lineNumber} className={`flex ${isHit ? "bg-amber-500/10 text-zinc-100" : "text-zinc-500"}`}>
+            <span className="w-12 shrink-0 pr-2 text-right text-zinc-600 select-none">{lineNumber}</span>
+            <span className="whitespace-pre overflow-hidden text-ellipsis">{text || " "}</span>
+          </div>
+        );
+      })}
+    </button>
+  );
+}
+
+export function SearchResults({ query, regex, path, matches, filesSearched, truncated, onOpen }: SearchResultsProps) {
+  const [expanded, setExpanded] = useState(true);
+  const byFile = new Map<string, Match[]>();
+  for (const match of matches) {
+    byFile.set(match.path, [...(byFile.get(match.path) || []), match]);
+  }
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 rounded-lg p-3 my-3">
+      <div
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-2 pb-2 border-b border-zinc-800 cursor-pointer select-none"
+      >
+        <span className="text-lg">🔍</span>
+        <h3 className="font-medium text-zinc-200 text-sm font-mono truncate">
+          {regex ? `/${query}/` : `"${query}"`}
+        </h3>
+        <span className="text-xs text-zinc-500 ml-auto shrink-0">
+          {matches.length}
+          {truncated ? "+" : ""} match{matches.length === 1 ? "" : "es"} in {byFile.size} file{byFile.size === 1 ? "" : "s"}
+          {filesSearched !== undefined ? ` · ${filesSearched} searched` : ""}
+          {path && path !== "." ? ` · ${path}` : ""}
+        </span>
+      </div>
+      {expanded && (
+        <div className="max-h-80 overflow-y-auto mt-2 space-y-3">
+          {matches.length === 0 && <p className="text-sm text-zinc-500">No matches.</p>}
+          {Array.from(byFile.entries()).map(([file, fileMatches]) => (
+            <div key={file}>
+              <div className="text-xs text-amber-400 font-mono mb-1">📄 {file}</div>
+              {fileMatches.map((match) => (
+                <MatchRow key={`${match.line}:${match.column}`} match={match} onOpen={onOpen} />
+              ))}
+            </div>
+          ))}
+          {truncated && (
+            <p className="text-xs text-zinc-500">Results were capped; narrow the search to see more.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+import { z } from "zod";
+
+type OutlineSymbol = {
+  name: string;
+  kind: string;
+  exported: boolean;
+  line: number;
+  endLine: number;
+  from?: string;
+  children?: OutlineSymbol[];
+};
+
+const OutlineSymbolSchema: z.ZodType<OutlineSymbol> = z.lazy(() =>
+  z.object({
+    name: z.string(),
+    kind: z.string(),
+    exported: z.boolean(),
+    line: z.number(),
+    endLine: z.number(),
+    from: z.string().optional(),
+    children: z.array(OutlineSymbolSchema).optional(),
+  })
+);
+
+const SymbolLocationSchema = z.object({
+  path: z.string(),
+  line: z.number(),
+  column: z.number(),
+  endLine: z.number().optional(),
+  kind: z.string().optional(),
+  container: z.string().optional(),
+  text: z.string(),
+  isDefinition: z.boolean().optional(),
+});
+
+/** Either a file outline (`path` + `symbols`) or a lookup (`symbol` + `definitions` + `references`). */
+export const SymbolOutlineSchema = z.object({
+  path: z.string().optional(),
+  symbols: z.array(OutlineSymbolSchema).optional(),
+  symbol: z.string().optional(),
+  definitions: z.array(SymbolLocationSchema).optional(),
+  references: z.array(SymbolLocationSchema).optional(),
+  truncated: z.boolean().optional(),
+});
+
+export type SymbolOutlineProps = z.infer<typeof SymbolOutlineSchema> & {
+  onOpen?: (path: string, line: number, endLine?: number) => void;
+};
+
+type SymbolLocation = z.infer<typeof SymbolLocationSchema>;
+type OpenHandler = SymbolOutlineProps["onOpen"];
+
+const KIND_BADGES: Record<string, string> = {
+  function: "ƒ",
+  method: "ƒ",
+  constructor: "ƒ",
+  class: "C",
+  interface: "I",
+  type: "T",
+  enum: "E",
+  namespace: "N",
+  variable: "v",
+  property: "p",
+  accessor: "p",
+  member: "m",
+  export: "→",
+};
+
+function SymbolRow({ symbol, path, depth, onOpen }: { symbol: OutlineSymbol; path: string; depth: number; onOpen?: OpenHandler }) {
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => onOpen?.(path, symbol.line, symbol.endLine)}
+        disabled={!onOpen}
+        title={onOpen ? `Open ${path}:${symbol.line}` : undefined}
+        className="flex w-full items-center gap-2 py-0.5 px-1 rounded text-left text-sm hover:bg-zinc-800 disabled:hover:bg-transparent"
+        style={{ paddingLeft: `${depth * 16 + 4}px` }}
+      >
+        <span className="w-4 shrink-0 text-center text-xs font-mono text-amber-400" title={symbol.kind}>
+          {KIND_BADGES[symbol.kind] || "·"}
+        </span>
+        <span className={`font-mono truncate ${symbol.exported ? "text-zinc-100" : "text-zinc-400"}`}>{symbol.name}</span>
+        {symbol.exported && depth === 0 && <span className="text-[10px] uppercase text-emerald-400">export</span>}
+        {symbol.from && <span className="text-xs text-zinc-500 font-mono truncate">from {symbol.from}</span>}
+        <span className="text-xs text-zinc-600 ml-auto shrink-0">
+          {symbol.endLine > symbol.line ? `${symbol.line}-${symbol.endLine}` : symbol.line}
+        </span>
+      </button>
+      {symbol.children?.map((child, i) => (
+        <SymbolRow key={`${child.name}-${i}`} symbol={child} path={path} depth={depth + 1} onOpen={onOpen} />
+      ))}
+    </>
+  );
+}
+
+function LocationRow({ location, onOpen }: { location: SymbolLocation; onOpen?: OpenHandler }) {
+  return (
+    <button
+      type="button"
+      onClick={() => onOpen?.(location.path, location.line, location.endLine)}
+      disabled={!onOpen}
+      title={onOpen ? `Open ${location.path}:${location.line}` : undefined}
+      className="flex w-full items-baseline gap-2 py-0.5 px-1 rounded text-left text-xs font-mono hover:bg-zinc-800 disabled:hover:bg-transparent"
+    >
+      <span className="w-10 shrink-0 text-right text-zinc-600">{location.line}</span>
+      <span className={`truncate ${location.isDefinition ? "text-zinc-100" : "text-zinc-400"}`}>{location.text}</span>
+    </button>
+  );
+}
+
+function LocationGroup({ title, locations, onOpen }: { title: string; locations: SymbolLocation[]; onOpen?: OpenHandler }) {
+  const byFile = new Map<string, SymbolLocation[]>();
+  for (const location of locations) {
+    byFile.set(location.path, [...(byFile.get(location.path) || []), location]);
+  }
+  return (
+    <div>
+      <div className="text-xs uppercase tracking-wide text-zinc-500 mb-1">{title}</div>
+      {locations.length === 0 && <p className="text-sm text-zinc-500">None found.</p>}
+      {Array.from(byFile.entries()).map(([file, fileLocations]) => (
+        <div key={file} className="mb-2">
+          <div className="text-xs text-amber-400 font-mono mb-0.5">📄 {file}</div>
+          {fileLocations.map((location) => (
+            <LocationRow key={`${location.line}:${location.column}`} location={location} onOpen={onOpen} />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function SymbolOutline({ path, symbols, symbol, definitions, references, truncated, onOpen }: SymbolOutlineProps) {
+  const [expanded, setExpanded] = useState(true);
+  const isLookup = symbol !== undefined;
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 rounded-lg p-3 my-3">
+      <div
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-2 pb-2 border-b border-zinc-800 cursor-pointer select-none"
+      >
+        <span className="text-lg">🧭</span>
+        <h3 className="font-medium text-zinc-200 text-sm font-mono truncate">{isLookup ? symbol : path}</h3>
+        <span className="text-xs text-zinc-500 ml-auto shrink-0">
+          {isLookup
+            ? `${definitions?.length ?? 0} definition${definitions?.length === 1 ? "" : "s"} · ${references?.length ?? 0}${truncated ? "+" : ""} reference${references?.length === 1 ? "" : "s"}`
+            : `${symbols?.length ?? 0} symbol${symbols?.length === 1 ? "" : "s"}`}
+        </span>
+      </div>
+      {expanded && (
+        <div className="max-h-80 overflow-y-auto mt-2 space-y-3">
+          {isLookup ? (
+            <>
+              <LocationGroup title="Definitions" locations={definitions || []} onOpen={onOpen} />
+              <LocationGroup title="References" locations={references || []} onOpen={onOpen} />
+              {truncated && <p className="text-xs text-zinc-500">References were capped.</p>}
+            </>
+          ) : (
+            <div>
+              {!symbols?.length && <p className="text-sm text-zinc-500">No declarations.</p>}
+              {symbols?.map((s, i) => (
+                <SymbolRow key={`${s.name}-${i}`} symbol={s} path={path || ""} depth={0} onOpen={onOpen} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,11 +7,12 @@ export const TerminalStreamSchema = z.object({
   lines: z.array(z.string()),
   status: z.enum(["running", "success", "error", "idle"]).optional(),
   command: z.string().optional(),
+  exitCode: z.number().nullable().optional(),
 });
 
 export type TerminalStreamProps = z.infer<typeof TerminalStreamSchema>;
 
-export function TerminalStream({ lines, status = "idle", command }: TerminalStreamProps) {
+export function TerminalStream({ lines, status = "idle", command, exitCode }: TerminalStreamProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -26,6 +27,9 @@ export function TerminalStream({ lines, status = "idle", command }: TerminalStre
       <div className="flex items-center gap-2 px-3 py-2 bg-zinc-900 border-b border-zinc-800">
         <span className={statusColors[status]}>{statusIcons[status]}</span>
         <span className="text-sm font-medium text-zinc-300">Terminal</span>
+        {typeof exitCode === "number" && (
+          <span className={`text-xs font-mono ${exitCode === 0 ? "text-zinc-500" : "text-red-400"}`}>exit {exitCode}</span>
+        )}
         {command && <code className="text-xs text-zinc-500 font-mono ml-auto truncate max-w-[50%]">$ {command}</code>}
       </div>
       <div ref={scrollRef} className="h-48 overflow-y-auto p-3 font-mono text-xs">
@@ -7,12 +7,17 @@ type FileNode = {
   name: string;
   type: "file" | "directory";
   size?: number;
+  childCount?: number;
   children?: FileNode[];
+  truncated?: boolean;
 };
 
 export const WorkspaceTreeSchema = z.object({
   tree: z.array(z.any()),
   rootPath: z.string(),
+  total: z.number().optional(),
+  offset: z.number().optional(),
+  nextOffset: z.number().optional(),
 });
 
 export type WorkspaceTreeProps = z.infer<typeof WorkspaceTreeSchema> & {
@@ -35,15 +40,24 @@ function TreeNode({ node, depth = 0, path, onFileSelect }: { node: FileNode; dep
         {isDir ? <span className="text-xs w-4">{expanded ? "▼" : "▶"}</span> : <span className="text-xs w-4 text-zinc-500">•</span>}
         <span className={isDir ? "text-amber-400" : ""}>{isDir ? "📁" : "📄"}</span>
         <span className="text-sm truncate">{node.name}</span>
+        {isDir && node.childCount !== undefined && (
+          <span className="text-xs text-zinc-500 ml-auto shrink-0">{node.childCount}</span>
+        )}
       </div>
       {expanded && hasChildren && node.children!.map((child, i) => (
         <TreeNode key={`${child.name}-${i}`} node={child} depth={depth + 1} path={currentPath} onFileSelect={onFileSelect} />
       ))}
+      {expanded && node.truncated && node.childCount !== undefined && (
+        <div className="py-0.5 px-1 text-xs text-zinc-500" style={{ paddingLeft: `${(depth + 1) * 12 + 20}px` }}>
+          … {node.childCount - (node.children?.length ?? 0)} more
+        </div>
+      )}
     </div>
   );
 }
 
-export function WorkspaceTree({ tree, rootPath, onFileSelect }: WorkspaceTreeProps) {
+export function WorkspaceTree({ tree, rootPath, total, offset = 0, nextOffset, onFileSelect }: WorkspaceTreeProps) {
+  const paged = total !== undefined && (offset > 0 || nextOffset !== undefined);
   return (
     <div className="bg-zinc-900/50 border border-zinc-800 rounded-lg p-3 my-3">
       <div className="flex items-center gap-2 mb-2 pb-2 border-b border-zinc-800">
@@ -56,6 +70,11 @@ export function WorkspaceTree({ tree, rootPath, onFileSelect }: WorkspaceTreePro
           <TreeNode key={`${node.name}-${i}`} node={node} path={rootPath} onFileSelect={onFileSelect} />
         ))}
       </div>
+      {paged && (
+        <div className="mt-2 pt-2 border-t border-zinc-800 text-xs text-zinc-500">
+          Showing entries {offset + 1}–{offset + tree.length} of {total}
+        </div>
+      )}
     </div>
   );
 }
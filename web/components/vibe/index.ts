@@ -12,3 +12,12 @@ export type { TerminalStreamProps } from "./TerminalStream";
 
 export { DiffReview, DiffReviewSchema } from "./DiffReview";
 export type { DiffReviewProps } from "./DiffReview";
+
+export { SearchResults, SearchResultsSchema } from "./SearchResults";
+export type { SearchResultsProps } from "./SearchResults";
+
+export { FilePreview, FilePreviewSchema } from "./FilePreview";
+export type { FilePreviewProps } from "./FilePreview";
+
+export { SymbolOutline, SymbolOutlineSchema } from "./SymbolOutline";
+export type { SymbolOutlineProps } from "./SymbolOutline";
@@ -0,0 +1 @@
+export { add, subtract, multiply } from "./math";
@@ -0,0 +1,12 @@
+export function add(a: number, b: number): number {
+  return a + b;
+}
+
+// Known bug, used by the patch scenario: subtract adds instead
+export function subtract(a: number, b: number): number {
+  return a + b;
+}
+
+export function multiply(a: number, b: number): number {
+  return a * b;
+}
@@ -15,11 +15,37 @@
 import {
   GoogleGenerativeAI,
   SchemaType,
+  type Content,
   type FunctionDeclaration,
+  type FunctionDeclarationSchema,
   type Part,
+  type Schema,
 } from "@google/generative-ai";
+import crypto from "crypto";
 import OpenAI from "openai";
 import Anthropic from "@anthropic-ai/sdk";
+import type { ZodTypeAny } from "zod";
+import type { TokenUsage } from "./usage";
+import type { JsonObjectSchema, JsonSchema } from "./tool-schema";
+import {
+  contextBudget,
+  contextWindow,
+  estimateFixedTokens,
+  estimateHistoryTokens,
+  fitHistory,
+  type ContextReport,
+} from "./context-budget";
+import {
+  MAX_PROVIDER_RETRIES,
+  describeUnavailable,
+  isProviderAvailable,
+  isTransient,
+  recordProviderFailure,
+  recordProviderSuccess,
+  retryDelayMs,
+} from "./provider-health";
+import { loadProviderConfig } from "./provider-config";
+import { createReplayChat, recordToCassette } from "./mock-provider";
 
 // ---------------------------------------------------------------------------
 // Common types
@@ -28,34 +54,64 @@ import Anthropic from "@anthropic-ai/sdk";
 export interface ToolDef {
   name: string;
   description: string;
-  parameters: {
-    type: "object";
-    properties: Record<string, { type: string; description: string }>;
-    required: string[];
-  };
+  /** JSON Schema of the arguments; see `defineTool` in lib/tool-schema. */
+  parameters: JsonObjectSchema;
+  /** Zod schema the arguments are validated against before the tool runs. */
+  schema?: ZodTypeAny;
 }
 
 export interface FunctionCallRequest {
+  /** Provider tool-call id (generated where the API has none); results echo it back. */
+  id: string;
   name: string;
   args: Record<string, any>;
+  /** Why the provider's arguments could not be parsed; `args` is then empty. */
+  argsError?: string;
 }
 
 export interface ModelTurn {
   text: string;
   functionCalls: FunctionCallRequest[];
+  /** Token counts for this call, when the provider reports them. */
+  usage?: TokenUsage;
 }
 
 export interface FunctionResult {
+  /** Id of the `FunctionCallRequest` this answers. */
+  id: string;
   name: string;
   result: any;
 }
 
+/**
+ * Prior conversation handed to a new chat. Assistant turns may carry the tool
+ * calls they made, followed by a `tool` message with their results (paired by
+ * id), so a resumed chat sees what the model already looked at.
+ */
+export type HistoryMessage =
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string; functionCalls?: FunctionCallRequest[] }
+  | { role: "tool"; results: FunctionResult[] };
+
+/**
+ * Incremental output of a streamed turn. Function calls are only yielded once
+ * their arguments are complete; `done` always comes last and carries the same
+ * `ModelTurn` the non-streaming methods would have returned.
+ */
+export type ChatStreamEvent =
+  | { type: "text_delta"; text: string }
+  | { type: "function_call"; call: FunctionCallRequest }
+  | { type: "done"; turn: ModelTurn };
+
 /**
  * A provider-agnostic chat session that supports multi-turn tool use.
  */
 export interface AIChat {
   sendMessage(message: string): Promise<ModelTurn>;
   sendToolResults(results: FunctionResult[]): Promise<ModelTurn>;
+  /** Streaming variants of the above. */
+  streamMessage(message: string): AsyncIterable<ChatStreamEvent>;
+  streamToolResults(results: FunctionResult[]): AsyncIterable<ChatStreamEvent>;
   readonly label: string;
 }
 
@@ -72,13 +128,66 @@ type ProviderType =
   | "moonshot"
   | "alibaba"
   | "mistral"
-  | "google";
+  | "google"
+  | "mock";
+
+/** Wire protocols the adapters below speak. */
+export type ProviderApi = "openai" | "anthropic" | "gemini" | "mock";
 
 export interface ProviderConfig {
-  provider: ProviderType;
+  /** A built-in provider type, or the name of a custom provider from the config file. */
+  provider: ProviderType | (string & {});
   model: string;
+  /** Empty for keyless (e.g. local) endpoints. */
   apiKey: string;
   baseURL?: string;
+  /** Protocol override for custom providers; built-ins are mapped by `provider`. */
+  api?: ProviderApi;
+  headers?: Record<string, string>;
+  /** Higher is tried first; built-ins are 0. */
+  priority?: number;
+}
+
+/** `provider/model` label used in logs, usage reports and provider selection. */
+export function providerLabel(config: Pick<ProviderConfig, "provider" | "model">): string {
+  return `${config.provider === "google" ? "gemini" : config.provider}/${config.model}`;
+}
+
+/**
+ * Which providers a request may use. Selectors are a full `provider/model`
+ * label or a bare provider name (all of its models, in default order).
+ */
+export interface ProviderPreference {
+  preferred?: string;
+  /** Tried in order after `preferred`. When given, nothing else is tried. */
+  fallback?: string[];
+}
+
+/** Order configured providers by a preference; throws on unknown selectors. */
+export function selectProviders(preference: ProviderPreference = {}): ProviderConfig[] {
+  const available = getAvailableProviders();
+  const { preferred, fallback } = preference;
+  if (!preferred && !fallback?.length) return available;
+
+  const matching = (selector: string) => {
+    const matches = available.filter((p) =>
+      selector.includes("/") ? providerLabel(p) === selector : providerLabel(p).split("/")[0] === selector
+    );
+    if (matches.length === 0) throw new Error(`Provider "${selector}" is not configured`);
+    return matches;
+  };
+
+  const ordered: ProviderConfig[] = [];
+  const add = (configs: ProviderConfig[]) => {
+    for (const c of configs) if (!ordered.includes(c)) ordered.push(c);
+  };
+  if (preferred) add(matching(preferred));
+  if (fallback?.length) {
+    for (const selector of fallback) add(matching(selector));
+  } else {
+    add(available);
+  }
+  return ordered;
 }
 
 /**
@@ -124,10 +233,39 @@ const OPENAI_COMPATIBLE_PROVIDERS: {
 ];
 
 /**
- * Returns all configured providers in priority order.
- * A provider is only included if its API key env var is set.
+ * Returns all configured providers in priority order: built-ins whose API key
+ * env var is set, merged with custom providers from the provider config file
+ * (see lib/provider-config). With `VIBE_MOCK_CASSETTE` set, only the mock
+ * provider replaying that cassette (or `script:<name>`) is returned (see
+ * lib/mock-provider).
  */
 export function getAvailableProviders(): ProviderConfig[] {
+  // Replaying a cassette must never fall through to a live provider
+  if (process.env.VIBE_MOCK_CASSETTE) {
+    return [{ provider: "mock", model: process.env.VIBE_MOCK_CASSETTE, apiKey: "", api: "mock" }];
+  }
+
+  const config = loadProviderConfig();
+  const custom: ProviderConfig[] = config.providers.flatMap((def) => {
+    const apiKey = def.api_key_env ? process.env[def.api_key_env] : "";
+    // A provider that names a key env var is skipped until the variable is set
+    if (def.api_key_env && !apiKey) return [];
+    return def.models.map((model) => ({
+      provider: def.name,
+      model,
+      apiKey: apiKey ?? "",
+      baseURL: def.base_url,
+      api: def.api,
+      headers: def.headers,
+      priority: def.priority,
+    }));
+  });
+  const builtin = config.include_builtin ? getBuiltinProviders() : [];
+  // Array.prototype.sort is stable, so equal priorities keep built-ins first
+  return [...builtin, ...custom].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+}
+
+function getBuiltinProviders(): ProviderConfig[] {
   const providers: ProviderConfig[] = [];
 
   // --- OpenAI (native) ---
@@ -172,27 +310,89 @@ export function getAvailableProviders(): ProviderConfig[] {
   return providers;
 }
 
+// ---------------------------------------------------------------------------
+// Shared adapter helpers
+// ---------------------------------------------------------------------------
+
+/** Per-request timeout; retries and fallback are handled by the health registry, not the SDKs. */
+const PROVIDER_TIMEOUT_MS = 60_000;
+
+/** Id for a tool call whose provider doesn't assign one. */
+function newCallId(): string {
+  return `call_${crypto.randomUUID().replace(/-/g, "").slice(0, 24)}`;
+}
+
+/** Whether a tool result reports a failure (the agent route returns `{ error }`). */
+function isErrorResult(result: any): boolean {
+  return Boolean(result && typeof result === "object" && "error" in result && result.error);
+}
+
+/**
+ * Snapshot a message list before a request appends to it, returning a function
+ * that restores it. A failed call can then be retried without duplicating input.
+ */
+function checkpoint<M extends { content?: unknown }>(messages: M[]): () => void {
+  const saved = messages.map((m) => (Array.isArray(m.content) ? ({ ...m, content: [...m.content] } as M) : m));
+  return () => {
+    messages.splice(0, messages.length, ...saved);
+  };
+}
+
+async function* rollbackOnError<T>(stream: AsyncGenerator<T>, rollback: () => void): AsyncGenerator<T> {
+  try {
+    yield* stream;
+  } catch (err) {
+    rollback();
+    throw err;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Gemini adapter
 // ---------------------------------------------------------------------------
 
+const GEMINI_TYPES: Record<JsonSchema["type"], SchemaType> = {
+  string: SchemaType.STRING,
+  number: SchemaType.NUMBER,
+  integer: SchemaType.INTEGER,
+  boolean: SchemaType.BOOLEAN,
+  array: SchemaType.ARRAY,
+  object: SchemaType.OBJECT,
+};
+
+/**
+ * Gemini takes an OpenAPI-style subset: enums are string-only (`format: "enum"`)
+ * and bounds/defaults are unsupported, so those move into the description
+ * (arguments are still validated against the full schema).
+ */
+function toGeminiSchema(schema: JsonSchema): Schema {
+  const hints: string[] = [];
+  if (schema.default !== undefined) hints.push(`default: ${JSON.stringify(schema.default)}`);
+  if (schema.minimum !== undefined) hints.push(`min: ${schema.minimum}`);
+  if (schema.maximum !== undefined) hints.push(`max: ${schema.maximum}`);
+  if (schema.maxItems !== undefined) hints.push(`at most ${schema.maxItems} items`);
+  if (schema.enum && schema.type !== "string") hints.push(`one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`);
+  const description = [schema.description, hints.length ? `(${hints.join("; ")})` : ""].filter(Boolean).join(" ");
+
+  const result: Schema = { type: GEMINI_TYPES[schema.type] };
+  if (description) result.description = description;
+  if (schema.enum && schema.type === "string") {
+    result.format = "enum";
+    result.enum = schema.enum.map(String);
+  }
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)]));
+    result.required = schema.required;
+  }
+  return result;
+}
+
 function toGeminiTools(tools: ToolDef[]): FunctionDeclaration[] {
   return tools.map((t) => ({
     name: t.name,
     description: t.description,
-    parameters: {
-      type: SchemaType.OBJECT,
-      properties: Object.fromEntries(
-        Object.entries(t.parameters.properties).map(([k, v]) => [
-          k,
-          {
-            type: v.type === "number" ? SchemaType.NUMBER : SchemaType.STRING,
-            description: v.description,
-          },
-        ])
-      ),
-      required: t.parameters.required,
-    },
+    parameters: toGeminiSchema(t.parameters) as FunctionDeclarationSchema,
   }));
 }
 
@@ -200,18 +400,32 @@ function createGeminiChat(
   config: ProviderConfig,
   systemPrompt: string,
   tools: ToolDef[],
-  history: { role: string; content: string }[]
+  history: HistoryMessage[]
 ): AIChat {
   const genAI = new GoogleGenerativeAI(config.apiKey);
-  const model = genAI.getGenerativeModel({
-    model: config.model,
-    systemInstruction: systemPrompt,
-  });
+  const model = genAI.getGenerativeModel(
+    {
+      model: config.model,
+      systemInstruction: systemPrompt,
+    },
+    { timeout: PROVIDER_TIMEOUT_MS, baseUrl: config.baseURL, customHeaders: config.headers }
+  );
 
-  const chatHistory = history.map((msg) => ({
-    role: msg.role === "user" ? ("user" as const) : ("model" as const),
-    parts: [{ text: msg.content }],
-  }));
+  const chatHistory: Content[] = [];
+  for (const msg of history) {
+    if (msg.role === "tool") {
+      chatHistory.push({
+        role: "function",
+        parts: msg.results.map((r) => ({ functionResponse: { name: r.name, response: { result: r.result } } })),
+      });
+      continue;
+    }
+    const parts: Part[] = msg.content ? [{ text: msg.content }] : [];
+    if (msg.role === "assistant") {
+      for (const call of msg.functionCalls || []) parts.push({ functionCall: { name: call.name, args: call.args } });
+    }
+    if (parts.length) chatHistory.push({ role: msg.role === "user" ? "user" : "model", parts });
+  }
 
   const chat = model.startChat({
     history: chatHistory,
@@ -228,29 +442,62 @@ function createGeminiChat(
     let functionCalls: FunctionCallRequest[] = [];
     try {
       const calls = response.functionCalls() ?? [];
+      // Gemini has no call ids; responses are matched by name and order
       functionCalls = calls.map((c: any) => ({
+        id: newCallId(),
         name: c.name,
         args: c.args as Record<string, any>,
       }));
     } catch {
       /* no calls */
     }
-    return { text, functionCalls };
+    const meta = response.usageMetadata;
+    const cachedTokens = meta?.cachedContentTokenCount ?? 0;
+    const usage: TokenUsage | undefined = meta
+      ? {
+          inputTokens: Math.max(0, (meta.promptTokenCount ?? 0) - cachedTokens),
+          outputTokens: meta.candidatesTokenCount ?? 0,
+          cachedTokens,
+        }
+      : undefined;
+    return { text, functionCalls, usage };
+  }
+
+  function toResponseParts(results: FunctionResult[]): Part[] {
+    return results.map((r) => ({
+      functionResponse: { name: r.name, response: { result: r.result } },
+    }));
+  }
+
+  // Gemini sends function calls whole, so only text is forwarded chunk by chunk
+  async function* stream(request: string | Part[]): AsyncGenerator<ChatStreamEvent> {
+    const result = await chat.sendMessageStream(request);
+    for await (const chunk of result.stream) {
+      for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+        if (part.text) yield { type: "text_delta", text: part.text };
+      }
+    }
+    const turn = parseResponse(await result.response);
+    for (const call of turn.functionCalls) yield { type: "function_call", call };
+    yield { type: "done", turn };
   }
 
   return {
-    label: `gemini/${config.model}`,
+    label: providerLabel(config),
     async sendMessage(message: string) {
       const result = await chat.sendMessage(message);
       return parseResponse(result.response);
     },
     async sendToolResults(results: FunctionResult[]) {
-      const parts: Part[] = results.map((r) => ({
-        functionResponse: { name: r.name, response: { result: r.result } },
-      }));
-      const result = await chat.sendMessage(parts);
+      const result = await chat.sendMessage(toResponseParts(results));
       return parseResponse(result.response);
     },
+    streamMessage(message: string) {
+      return stream(message);
+    },
+    streamToolResults(results: FunctionResult[]) {
+      return stream(toResponseParts(results));
+    },
   };
 }
 
@@ -265,7 +512,7 @@ function toOpenAITools(tools: ToolDef[]): OpenAI.ChatCompletionTool[] {
     function: {
       name: t.name,
       description: t.description,
-      parameters: t.parameters as any,
+      parameters: t.parameters as unknown as OpenAI.FunctionParameters,
     },
   }));
 }
@@ -274,36 +521,87 @@ function createOpenAICompatibleChat(
   config: ProviderConfig,
   systemPrompt: string,
   tools: ToolDef[],
-  history: { role: string; content: string }[]
+  history: HistoryMessage[]
 ): AIChat {
   const client = new OpenAI({
     apiKey: config.apiKey,
     baseURL: config.baseURL,
+    defaultHeaders: config.headers,
+    maxRetries: 0,
+    timeout: PROVIDER_TIMEOUT_MS,
   });
   const openaiTools = toOpenAITools(tools);
 
-  const messages: OpenAI.ChatCompletionMessageParam[] = [
-    { role: "system", content: systemPrompt },
-    ...history.map((m) => ({
-      role: (m.role === "user" ? "user" : "assistant") as "user" | "assistant",
-      content: m.content,
-    })),
-  ];
+  const messages: OpenAI.ChatCompletionMessageParam[] = [{ role: "system", content: systemPrompt }];
+  for (const m of history) {
+    if (m.role === "user") {
+      messages.push({ role: "user", content: m.content });
+    } else if (m.role === "assistant") {
+      const calls = m.functionCalls || [];
+      messages.push({
+        role: "assistant",
+        content: m.content || null,
+        ...(calls.length
+          ? {
+              tool_calls: calls.map((c) => ({
+                id: c.id,
+                type: "function" as const,
+                function: { name: c.name, arguments: JSON.stringify(c.args ?? {}) },
+              })),
+            }
+          : {}),
+      });
+    } else {
+      for (const r of m.results) {
+        messages.push({ role: "tool", tool_call_id: r.id, content: JSON.stringify(r.result) });
+      }
+    }
+  }
 
   function parseResponse(response: OpenAI.ChatCompletion): ModelTurn {
-    const choice = response.choices[0];
-    const text = choice.message.content || "";
+    return parseMessage(response.choices[0].message, response.usage);
+  }
+
+  // A malformed call keeps its id, so it still gets a (failed) result paired with it
+  function parseToolArguments(raw: string | undefined): Pick<FunctionCallRequest, "args" | "argsError"> {
+    let args: unknown;
+    try {
+      args = JSON.parse(raw || "{}");
+    } catch (err: any) {
+      return { args: {}, argsError: `Arguments are not valid JSON (${err.message}).` };
+    }
+    if (typeof args !== "object" || args === null || Array.isArray(args)) {
+      return { args: {}, argsError: "Arguments must be a JSON object." };
+    }
+    return { args: args as Record<string, any> };
+  }
+
+  function parseMessage(
+    message: Pick<OpenAI.ChatCompletionMessage, "content" | "tool_calls">,
+    completionUsage: OpenAI.CompletionUsage | undefined | null
+  ): ModelTurn {
+    const text = message.content || "";
     const functionCalls: FunctionCallRequest[] = (
-      choice.message.tool_calls || []
+      message.tool_calls || []
     )
       .filter((tc): tc is OpenAI.ChatCompletionMessageToolCall & { type: "function" } =>
         tc.type === "function"
       )
       .map((tc) => ({
+        id: tc.id || newCallId(),
         name: tc.function.name,
-        args: JSON.parse(tc.function.arguments || "{}"),
+        ...parseToolArguments(tc.function.arguments),
       }));
-    return { text, functionCalls };
+    // prompt_tokens includes cache hits; split them out so they price separately
+    const cachedTokens = completionUsage?.prompt_tokens_details?.cached_tokens ?? 0;
+    const usage: TokenUsage | undefined = completionUsage
+      ? {
+          inputTokens: Math.max(0, completionUsage.prompt_tokens - cachedTokens),
+          outputTokens: completionUsage.completion_tokens,
+          cachedTokens,
+        }
+      : undefined;
+    return { text, functionCalls, usage };
   }
 
   async function complete(): Promise<{
@@ -321,32 +619,93 @@ function createOpenAICompatibleChat(
     return { raw: resp, turn };
   }
 
+  /** Stream a completion, assembling tool-call arguments from their deltas. */
+  async function* completeStream(): AsyncGenerator<ChatStreamEvent> {
+    const stream = await client.chat.completions.create({
+      model: config.model,
+      messages,
+      tools: openaiTools,
+      tool_choice: "auto",
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    let content = "";
+    let completionUsage: OpenAI.CompletionUsage | undefined;
+    const partialCalls: { id: string; name: string; arguments: string }[] = [];
+    for await (const chunk of stream) {
+      if (chunk.usage) completionUsage = chunk.usage;
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+      if (delta.content) {
+        content += delta.content;
+        yield { type: "text_delta", text: delta.content };
+      }
+      for (const tc of delta.tool_calls || []) {
+        const partial = (partialCalls[tc.index] ??= { id: "", name: "", arguments: "" });
+        if (tc.id) partial.id = tc.id;
+        if (tc.function?.name) partial.name += tc.function.name;
+        if (tc.function?.arguments) partial.arguments += tc.function.arguments;
+      }
+    }
+    const toolCalls = partialCalls.filter(Boolean).map((c) => ({
+      id: c.id || newCallId(),
+      type: "function" as const,
+      function: { name: c.name, arguments: c.arguments },
+    }));
+    const message: OpenAI.ChatCompletionAssistantMessageParam = {
+      role: "assistant",
+      content: content || null,
+      ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+    };
+    const turn = parseMessage({ content: content || null, tool_calls: toolCalls }, completionUsage);
+    messages.push(message);
+    for (const call of turn.functionCalls) yield { type: "function_call", call };
+    yield { type: "done", turn };
+  }
+
+  function pushToolResults(results: FunctionResult[]) {
+    for (const r of results) {
+      messages.push({
+        role: "tool",
+        tool_call_id: r.id,
+        content: JSON.stringify(r.result),
+      });
+    }
+  }
+
   return {
-    label: `${config.provider}/${config.model}`,
+    label: providerLabel(config),
     async sendMessage(message: string) {
-      messages.push({ role: "user", content: message });
-      const { turn } = await complete();
-      return turn;
+      const rollback = checkpoint(messages);
+      try {
+        messages.push({ role: "user", content: message });
+        const { turn } = await complete();
+        return turn;
+      } catch (err) {
+        rollback();
+        throw err;
+      }
     },
     async sendToolResults(results: FunctionResult[]) {
-      const lastAssistant = [...messages]
-        .reverse()
-        .find(
-          (m) => m.role === "assistant" && (m as any).tool_calls?.length
-        ) as OpenAI.ChatCompletionAssistantMessageParam | undefined;
-
-      const toolCalls = (lastAssistant as any)?.tool_calls || [];
-
-      for (let i = 0; i < results.length; i++) {
-        const tcId = toolCalls[i]?.id || `call_${i}`;
-        messages.push({
-          role: "tool",
-          tool_call_id: tcId,
-          content: JSON.stringify(results[i].result),
-        });
+      const rollback = checkpoint(messages);
+      try {
+        pushToolResults(results);
+        const { turn } = await complete();
+        return turn;
+      } catch (err) {
+        rollback();
+        throw err;
       }
-      const { turn } = await complete();
-      return turn;
+    },
+    streamMessage(message: string) {
+      const rollback = checkpoint(messages);
+      messages.push({ role: "user", content: message });
+      return rollbackOnError(completeStream(), rollback);
+    },
+    streamToolResults(results: FunctionResult[]) {
+      const rollback = checkpoint(messages);
+      pushToolResults(results);
+      return rollbackOnError(completeStream(), rollback);
     },
   };
 }
@@ -359,27 +718,54 @@ function toAnthropicTools(tools: ToolDef[]): Anthropic.Tool[] {
   return tools.map((t) => ({
     name: t.name,
     description: t.description,
-    input_schema: {
-      type: "object" as const,
-      properties: t.parameters.properties,
-      required: t.parameters.required,
-    },
+    input_schema: t.parameters as Anthropic.Tool.InputSchema,
   }));
 }
 
+function toToolResultBlock(r: FunctionResult): Anthropic.ToolResultBlockParam {
+  return {
+    type: "tool_result",
+    tool_use_id: r.id,
+    content: JSON.stringify(r.result),
+    ...(isErrorResult(r.result) ? { is_error: true } : {}),
+  };
+}
+
 function createAnthropicChat(
   config: ProviderConfig,
   systemPrompt: string,
   tools: ToolDef[],
-  history: { role: string; content: string }[]
+  history: HistoryMessage[]
 ): AIChat {
-  const client = new Anthropic({ apiKey: config.apiKey });
+  const client = new Anthropic({
+    apiKey: config.apiKey,
+    baseURL: config.baseURL,
+    defaultHeaders: config.headers,
+    maxRetries: 0,
+    timeout: PROVIDER_TIMEOUT_MS,
+  });
   const anthropicTools = toAnthropicTools(tools);
 
-  const messages: Anthropic.MessageParam[] = history.map((m) => ({
-    role: (m.role === "user" ? "user" : "assistant") as "user" | "assistant",
-    content: m.content,
-  }));
+  const messages: Anthropic.MessageParam[] = [];
+  // Anthropic needs alternating roles, so tool results and a following user
+  // message are merged into one user turn
+  const pushUserBlocks = (blocks: Anthropic.ContentBlockParam[]) => {
+    const last = messages[messages.length - 1];
+    if (last?.role === "user" && Array.isArray(last.content)) last.content.push(...blocks);
+    else messages.push({ role: "user", content: blocks });
+  };
+  for (const m of history) {
+    if (m.role === "user") {
+      pushUserBlocks([{ type: "text", text: m.content }]);
+    } else if (m.role === "assistant") {
+      const calls = m.functionCalls || [];
+      const blocks: Anthropic.ContentBlockParam[] = m.content ? [{ type: "text", text: m.content }] : [];
+      for (const c of calls) blocks.push({ type: "tool_use", id: c.id, name: c.name, input: c.args ?? {} });
+      if (blocks.length) messages.push({ role: "assistant", content: blocks });
+    } else {
+      pushUserBlocks(m.results.map(toToolResultBlock));
+    }
+  }
 
   function parseResponse(response: Anthropic.Message): ModelTurn {
     let text = "";
@@ -388,12 +774,19 @@ function createAnthropicChat(
       if (block.type === "text") text += block.text;
       if (block.type === "tool_use") {
         functionCalls.push({
+          id: block.id,
           name: block.name,
           args: (block.input || {}) as Record<string, any>,
         });
       }
     }
-    return { text, functionCalls };
+    // input_tokens excludes cache reads; cache writes bill at (roughly) the input rate
+    const usage: TokenUsage = {
+      inputTokens: response.usage.input_tokens + (response.usage.cache_creation_input_tokens ?? 0),
+      outputTokens: response.usage.output_tokens,
+      cachedTokens: response.usage.cache_read_input_tokens ?? 0,
+    };
+    return { text, functionCalls, usage };
   }
 
   async function complete(): Promise<{
@@ -412,36 +805,63 @@ function createAnthropicChat(
     return { raw: resp, turn };
   }
 
+  async function* completeStream(): AsyncGenerator<ChatStreamEvent> {
+    const stream = client.messages.stream({
+      model: config.model,
+      max_tokens: 4096,
+      system: systemPrompt,
+      messages,
+      tools: anthropicTools,
+    });
+    for await (const event of stream) {
+      if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+        yield { type: "text_delta", text: event.delta.text };
+      }
+    }
+    const resp = await stream.finalMessage();
+    const turn = parseResponse(resp);
+    messages.push({ role: "assistant", content: resp.content });
+    for (const call of turn.functionCalls) yield { type: "function_call", call };
+    yield { type: "done", turn };
+  }
+
+  function pushToolResults(results: FunctionResult[]) {
+    messages.push({ role: "user", content: results.map(toToolResultBlock) });
+  }
+
   return {
-    label: `anthropic/${config.model}`,
+    label: providerLabel(config),
     async sendMessage(message: string) {
-      messages.push({ role: "user", content: message });
-      const { turn } = await complete();
-      return turn;
+      const rollback = checkpoint(messages);
+      try {
+        pushUserBlocks([{ type: "text", text: message }]);
+        const { turn } = await complete();
+        return turn;
+      } catch (err) {
+        rollback();
+        throw err;
+      }
     },
     async sendToolResults(results: FunctionResult[]) {
-      const toolResultContent: Anthropic.ToolResultBlockParam[] = [];
-      const lastAssistant = [...messages]
-        .reverse()
-        .find((m) => m.role === "assistant");
-      const blocks = Array.isArray(lastAssistant?.content)
-        ? lastAssistant!.content
-        : [];
-      const toolUseBlocks = blocks.filter(
-        (b: any) => b.type === "tool_use"
-      ) as Anthropic.ToolUseBlock[];
-
-      for (let i = 0; i < results.length; i++) {
-        toolResultContent.push({
-          type: "tool_result",
-          tool_use_id: toolUseBlocks[i]?.id || `toolu_${i}`,
-          content: JSON.stringify(results[i].result),
-        });
+      const rollback = checkpoint(messages);
+      try {
+        pushToolResults(results);
+        const { turn } = await complete();
+        return turn;
+      } catch (err) {
+        rollback();
+        throw err;
       }
-
-      messages.push({ role: "user", content: toolResultContent });
-      const { turn } = await complete();
-      return turn;
+    },
+    streamMessage(message: string) {
+      const rollback = checkpoint(messages);
+      pushUserBlocks([{ type: "text", text: message }]);
+      return rollbackOnError(completeStream(), rollback);
+    },
+    streamToolResults(results: FunctionResult[]) {
+      const rollback = checkpoint(messages);
+      pushToolResults(results);
+      return rollbackOnError(completeStream(), rollback);
     },
   };
 }
@@ -460,68 +880,260 @@ const OPENAI_COMPATIBLE_PROVIDER_TYPES = new Set<ProviderType>([
   "mistral",
 ] as const);
 
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Report every call to the health registry and retry transient errors on the
+ * same provider with backoff. Streams are only retried before their first event.
+ */
+function withHealthTracking(config: ProviderConfig, chat: AIChat): AIChat {
+  const label = providerLabel(config);
+
+  async function call<T>(run: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const started = Date.now();
+      try {
+        const result = await run();
+        recordProviderSuccess(label, config.apiKey, Date.now() - started);
+        return result;
+      } catch (err) {
+        const errorClass = recordProviderFailure(label, config.apiKey, err);
+        if (!isTransient(errorClass) || attempt >= MAX_PROVIDER_RETRIES || !isProviderAvailable(label, config.apiKey)) {
+          throw err;
+        }
+        await sleep(retryDelayMs(attempt, err));
+      }
+    }
+  }
+
+  async function* stream(open: () => AsyncIterable<ChatStreamEvent>): AsyncGenerator<ChatStreamEvent> {
+    for (let attempt = 0; ; attempt++) {
+      const started = Date.now();
+      let yielded = false;
+      try {
+        for await (const event of open()) {
+          yielded = true;
+          yield event;
+        }
+        recordProviderSuccess(label, config.apiKey, Date.now() - started);
+        return;
+      } catch (err) {
+        const errorClass = recordProviderFailure(label, config.apiKey, err);
+        if (
+          yielded ||
+          !isTransient(errorClass) ||
+          attempt >= MAX_PROVIDER_RETRIES ||
+          !isProviderAvailable(label, config.apiKey)
+        ) {
+          throw err;
+        }
+        await sleep(retryDelayMs(attempt, err));
+      }
+    }
+  }
+
+  return {
+    label: chat.label,
+    sendMessage: (message) => call(() => chat.sendMessage(message)),
+    sendToolResults: (results) => call(() => chat.sendToolResults(results)),
+    streamMessage: (message) => stream(() => chat.streamMessage(message)),
+    streamToolResults: (results) => stream(() => chat.streamToolResults(results)),
+  };
+}
+
 export function createChat(
   config: ProviderConfig,
   systemPrompt: string,
   tools: ToolDef[],
-  history: { role: string; content: string }[]
+  history: HistoryMessage[]
 ): AIChat {
-  if (config.provider === "gemini" || config.provider === "google") {
+  const chat = withHealthTracking(config, createProviderChat(config, systemPrompt, tools, history));
+  const recordPath = process.env.VIBE_RECORD_CASSETTE;
+  return recordPath && config.api !== "mock" ? recordToCassette(chat, recordPath) : chat;
+}
+
+function createProviderChat(
+  config: ProviderConfig,
+  systemPrompt: string,
+  tools: ToolDef[],
+  history: HistoryMessage[]
+): AIChat {
+  const api: ProviderApi | undefined =
+    config.api ??
+    (config.provider === "gemini" || config.provider === "google"
+      ? "gemini"
+      : config.provider === "anthropic"
+        ? "anthropic"
+        : OPENAI_COMPATIBLE_PROVIDER_TYPES.has(config.provider as ProviderType)
+          ? "openai"
+          : undefined);
+  if (api === "gemini") {
     return createGeminiChat(config, systemPrompt, tools, history);
   }
-  if (config.provider === "anthropic") {
+  if (api === "anthropic") {
     return createAnthropicChat(config, systemPrompt, tools, history);
   }
-  if (OPENAI_COMPATIBLE_PROVIDER_TYPES.has(config.provider)) {
+  if (api === "openai") {
     return createOpenAICompatibleChat(config, systemPrompt, tools, history);
   }
+  if (api === "mock") {
+    return createReplayChat(providerLabel(config), config.model);
+  }
   throw new Error(`Unknown provider: ${config.provider}`);
 }
 
-/**
- * Try each available provider in order until one works.
- * Returns the first successful chat + initial response, or throws.
- */
-export async function createChatWithFallback(
+/** Short reason for logs and failover notes (HTTP status, error code or message). */
+export function describeProviderError(err: any): string {
+  return err?.status ? `HTTP ${err.status}` : err?.code || err?.message?.slice(0, 80) || "unknown error";
+}
+
+export interface ChatWithFallback {
+  chat: AIChat;
+  turn: ModelTurn;
+  /** The config that answered, so callers can continue down the list after it. */
+  config: ProviderConfig;
+  /** Set when the history had to be condensed to fit this provider's context window. */
+  context?: ContextReport;
+}
+
+/** Condense `history` so the request fits the provider's context window. */
+function fitToContext(
+  label: string,
   systemPrompt: string,
   tools: ToolDef[],
-  history: { role: string; content: string }[],
-  userMessage: string
-): Promise<{ chat: AIChat; turn: ModelTurn }> {
-  const providers = getAvailableProviders();
-
-  if (providers.length === 0) {
-    throw new Error(
-      "No AI providers configured. Set at least one API key in .env.local. " +
-        "Supported: OPENAI_API_KEY, ANTHROPIC_API_KEY, GEMINI_API_KEY, GOOGLE_API_KEY, " +
-        "GROK_API_KEY, DEEPSEEK_API_KEY, MOONSHOT_API_KEY, ALIBABA_API_KEY, MISTRAL_API_KEY"
-    );
-  }
+  history: HistoryMessage[],
+  input: string | FunctionResult[]
+): { history: HistoryMessage[]; context?: ContextReport } {
+  const fixedTokens = estimateFixedTokens(systemPrompt, tools, input);
+  const estimatedTokens = fixedTokens + estimateHistoryTokens(history);
+  const budget = contextBudget(label);
+  if (estimatedTokens <= budget) return { history };
 
+  const fitted = fitHistory(history, Math.max(budget - fixedTokens, 0));
+  const context: ContextReport = {
+    label,
+    windowTokens: contextWindow(label),
+    estimatedTokens,
+    finalTokens: fixedTokens + estimateHistoryTokens(fitted.history),
+    summarizedTurns: fitted.summarizedTurns,
+    elidedResults: fitted.elidedResults,
+  };
   console.log(
-    `[ai] ${providers.length} provider configs available: ${providers.map((p) => `${p.provider}/${p.model}`).join(", ")}`
+    `[ai] Condensed context for ${label}: ~${estimatedTokens} → ~${context.finalTokens} tokens ` +
+      `(${context.summarizedTurns} turns summarized, ${context.elidedResults} results elided)`
   );
+  return { history: fitted.history, context };
+}
 
+/**
+ * Open a chat on each provider in turn and send `input` - a user message, or
+ * tool results answering the function calls at the end of `history` - until
+ * one answers. A provider that fails after it has streamed text is not retried
+ * on the next one, since the partial text has already reached the caller.
+ * History is condensed per provider to fit its context window.
+ */
+async function startWithFallback(
+  providers: ProviderConfig[],
+  systemPrompt: string,
+  tools: ToolDef[],
+  history: HistoryMessage[],
+  input: string | FunctionResult[],
+  onTextDelta?: (text: string) => void
+): Promise<ChatWithFallback> {
   let lastError: any = null;
+  let streamed = false;
+  const tried: string[] = [];
+  const skipped: string[] = [];
 
   for (const config of providers) {
+    // Open circuits and rejected keys are skipped without a request
+    if (!isProviderAvailable(providerLabel(config), config.apiKey)) {
+      skipped.push(`${providerLabel(config)} (${describeUnavailable(providerLabel(config), config.apiKey)})`);
+      continue;
+    }
+    tried.push(providerLabel(config));
     try {
-      const chat = createChat(config, systemPrompt, tools, history);
-      const turn = await chat.sendMessage(userMessage);
+      const fitted = fitToContext(providerLabel(config), systemPrompt, tools, history, input);
+      const chat = createChat(config, systemPrompt, tools, fitted.history);
+      let turn: ModelTurn | undefined;
+      if (onTextDelta) {
+        const stream = typeof input === "string" ? chat.streamMessage(input) : chat.streamToolResults(input);
+        for await (const event of stream) {
+          if (event.type === "text_delta") {
+            streamed = true;
+            onTextDelta(event.text);
+          } else if (event.type === "done") {
+            turn = event.turn;
+          }
+        }
+        if (!turn) throw new Error("Stream ended without a final turn");
+      } else {
+        turn = typeof input === "string" ? await chat.sendMessage(input) : await chat.sendToolResults(input);
+      }
       console.log(`[ai] ✓ Using provider: ${chat.label}`);
-      return { chat, turn };
+      return { chat, turn, config, ...(fitted.context ? { context: fitted.context } : {}) };
     } catch (err: any) {
+      if (streamed) throw err;
       lastError = err;
-      const reason = err.status
-        ? `HTTP ${err.status}`
-        : err.code || err.message?.slice(0, 80);
-      console.warn(`[ai] ✗ ${config.provider}/${config.model}: ${reason}`);
+      console.warn(`[ai] ✗ ${providerLabel(config)}: ${describeProviderError(err)}`);
       continue;
     }
   }
 
   throw new Error(
     `All AI providers failed. Last error: ${lastError?.message || "unknown"}. ` +
-      `Tried: ${providers.map((p) => `${p.provider}/${p.model}`).join(", ")}`
+      `Tried: ${tried.join(", ") || "none"}` +
+      (skipped.length ? `. Skipped: ${skipped.join(", ")}` : "")
+  );
+}
+
+/**
+ * Try each available provider in order until one works.
+ * Returns the first successful chat + initial response, or throws.
+ *
+ * `providers` overrides the order (see `selectProviders`).
+ * With `onTextDelta` the first turn is streamed.
+ */
+export async function createChatWithFallback(
+  systemPrompt: string,
+  tools: ToolDef[],
+  history: HistoryMessage[],
+  userMessage: string,
+  options: { onTextDelta?: (text: string) => void; providers?: ProviderConfig[] } = {}
+): Promise<ChatWithFallback> {
+  const { onTextDelta, providers = getAvailableProviders() } = options;
+
+  if (providers.length === 0) {
+    throw new Error(
+      "No AI providers configured. Set at least one API key in .env.local " +
+        "or declare a provider in .vibe/providers.json. " +
+        "Supported: OPENAI_API_KEY, ANTHROPIC_API_KEY, GEMINI_API_KEY, GOOGLE_API_KEY, " +
+        "GROK_API_KEY, DEEPSEEK_API_KEY, MOONSHOT_API_KEY, ALIBABA_API_KEY, MISTRAL_API_KEY"
+    );
+  }
+
+  console.log(
+    `[ai] ${providers.length} provider configs available: ${providers.map(providerLabel).join(", ")}`
   );
+
+  return startWithFallback(providers, systemPrompt, tools, history, userMessage, onTextDelta);
+}
+
+/**
+ * Move a conversation that failed mid tool loop onto the next providers.
+ * `history` is the transcript so far, ending with the assistant turn whose
+ * function calls `results` answer; each provider gets it replayed in its own
+ * format and continues from there.
+ */
+export async function resumeChatWithFallback(
+  systemPrompt: string,
+  tools: ToolDef[],
+  history: HistoryMessage[],
+  results: FunctionResult[],
+  options: { onTextDelta?: (text: string) => void; providers: ProviderConfig[] }
+): Promise<ChatWithFallback> {
+  if (options.providers.length === 0) {
+    throw new Error("No fallback providers left to continue the conversation");
+  }
+  return startWithFallback(options.providers, systemPrompt, tools, history, results, options.onTextDelta);
 }
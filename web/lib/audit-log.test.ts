@@ -0,0 +1,35 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+// The workspace root is fixed when lib/workspace loads, so point it at a scratch directory first
+const workspace = mkdtempSync(join(tmpdir(), "vibe-audit-"));
+process.env.WORKSPACE_ROOT = workspace;
+
+let audit: typeof import("./audit-log");
+
+beforeAll(async () => {
+  audit = await import("./audit-log");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+afterAll(() => {
+  rmSync(workspace, { recursive: true, force: true });
+});
+
+describe("resolveActor", () => {
+  it("take the actor from the server, not the x-vibe-user header", () => {
+    vi.stubEnv("VIBE_USER", "operator");
+    const actor = audit.resolveActor(new Headers({ "x-vibe-user": "admin" }));
+    expect(actor).toEqual({ decidedBy: "operator", claimedBy: "admin" });
+  });
+
+  it("leave out the claim when no user is named", () => {
+    vi.stubEnv("VIBE_USER", "operator");
+    expect(audit.resolveActor(new Headers())).toEqual({ decidedBy: "operator" });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Approval Audit Log
+ *
+ * Append-only JSONL record of every approval request, decision and execution,
+ * stored at `<workspace>/.vibe/audit.jsonl`. The in-memory approval maps are
+ * gone after a restart; this file is the durable answer to "what did the AI
+ * run, and who let it".
+ */
+
+import { appendFile, mkdir, readFile } from "fs/promises";
+import { join } from "path";
+import { userInfo } from "os";
+import crypto from "crypto";
+import { WORKSPACE_ROOT_REAL } from "./workspace";
+import { ignoreInGit } from "./workspace-ignore";
+
+export const AUDIT_LOG_PATH = join(WORKSPACE_ROOT_REAL, ".vibe", "audit.jsonl");
+
+export type AuditEvent =
+  | "approval_requested"
+  | "approval_granted"
+  | "approval_denied"
+  | "execution_rejected"
+  | "command_executed"
+  | "file_written";
+
+export interface AuditRecord {
+  id: string;
+  event: AuditEvent;
+  timestamp: string;
+  request_id?: string;
+  action: string;
+  command: string;
+  cwd?: string;
+  reason?: string;
+  decision?: "pending" | "granted" | "denied";
+  /** Why the decision was made (e.g. the user's denial reason). */
+  decision_reason?: string;
+  /** Server-side identity of whoever decided (see `resolveActor`). */
+  decided_by?: string;
+  /** User the client named in `x-vibe-user`; an unverified claim, never used as `decided_by`. */
+  claimed_by?: string;
+  requested_at?: string;
+  decided_at?: string;
+  exit_code?: number | null;
+  output_digest?: string;
+  output_bytes?: number;
+  duration_ms?: number;
+  error?: string;
+}
+
+export interface AuditQuery {
+  event?: AuditEvent;
+  action?: string;
+  request_id?: string;
+  decision?: AuditRecord["decision"];
+  since?: string;
+  until?: string;
+  /** Opaque cursor from a previous page's `next_cursor`. */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface AuditPage {
+  records: AuditRecord[];
+  next_cursor: string | null;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// Appends are chained so concurrent writers never interleave partial lines
+let writeChain: Promise<void> = Promise.resolve();
+
+/** sha256 of command output, so the log proves what was printed without storing it. */
+export function digestOutput(output: string): string {
+  return `sha256:${crypto.createHash("sha256").update(output).digest("hex")}`;
+}
+
+export interface AuditActor {
+  decidedBy: string;
+  claimedBy?: string;
+}
+
+/**
+ * Who made a decision. The actor comes only from the server: `VIBE_USER`, or
+ * else the OS user running the local server. A user named by the client in
+ * `x-vibe-user` is kept as an unverified `claimedBy`.
+ */
+export function resolveActor(headers?: Headers): AuditActor {
+  const claimedBy = headers?.get("x-vibe-user")?.trim() || undefined;
+  let decidedBy = process.env.VIBE_USER?.trim();
+  if (!decidedBy) {
+    try {
+      decidedBy = userInfo().username;
+    } catch {
+      decidedBy = "unknown";
+    }
+  }
+  return { decidedBy, ...(claimedBy ? { claimedBy } : {}) };
+}
+
+/**
+ * Append one record. Rejects if the log cannot be written, so callers fail
+ * closed instead of running unaudited.
+ */
+export function appendAudit(entry: Omit<AuditRecord, "id" | "timestamp">): Promise<void> {
+  const record: AuditRecord = {
+    id: `aud_${crypto.randomBytes(8).toString("hex")}`,
+    timestamp: new Date().toISOString(),
+    ...entry,
+  };
+  const write = writeChain.then(async () => {
+    await mkdir(join(WORKSPACE_ROOT_REAL, ".vibe"), { recursive: true });
+    await ignoreInGit("audit.jsonl");
+    await appendFile(AUDIT_LOG_PATH, JSON.stringify(record) + "\n", "utf-8");
+  });
+  // Keep the chain alive after a failed write
+  writeChain = write.catch(() => undefined);
+  return write;
+}
+
+/**
+ * Read a newest-first page of records matching `query`. Cursors are line
+ * positions in the file, so they stay valid while new records are appended.
+ */
+export async function queryAudit(query: AuditQuery = {}): Promise<AuditPage> {
+  let raw: string;
+  try {
+    raw = await readFile(AUDIT_LOG_PATH, "utf-8");
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return { records: [], next_cursor: null };
+    throw err;
+  }
+
+  const lines = raw.split("\n");
+  const limit = Math.min(Math.max(1, Math.floor(query.limit || DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE);
+  const parsedCursor = query.cursor !== undefined ? Number.parseInt(query.cursor, 10) : NaN;
+  const start = Number.isFinite(parsedCursor) ? Math.min(parsedCursor, lines.length) : lines.length;
+  const since = query.since ? Date.parse(query.since) : NaN;
+  const until = query.until ? Date.parse(query.until) : NaN;
+
+  const records: AuditRecord[] = [];
+  let index = start - 1;
+  for (; index >= 0 && records.length < limit; index--) {
+    if (!lines[index].trim()) continue;
+    let record: AuditRecord;
+    try {
+      record = JSON.parse(lines[index]);
+    } catch {
+      continue; // torn line from a crash mid-write
+    }
+    const time = Date.parse(record.timestamp);
+    if (query.event && record.event !== query.event) continue;
+    if (query.action && record.action !== query.action) continue;
+    if (query.request_id && record.request_id !== query.request_id) continue;
+    if (query.decision && record.decision !== query.decision) continue;
+    if (Number.isFinite(since) && time < since) continue;
+    if (Number.isFinite(until) && time > until) continue;
+    records.push(record);
+  }
+
+  return { records, next_cursor: index >= 0 ? String(index + 1) : null };
+}
@@ -0,0 +1,46 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+// The workspace root is fixed when lib/workspace loads, so point it at a scratch directory first
+const workspace = mkdtempSync(join(tmpdir(), "vibe-search-"));
+process.env.WORKSPACE_ROOT = workspace;
+
+let search: typeof import("./code-search");
+
+beforeAll(async () => {
+  writeFileSync(join(workspace, "app.ts"), "const answer = 42;\nexport function ask() {\n  return answer;\n}\n");
+  writeFileSync(join(workspace, "bundle.js"), `${"a".repeat(5_000)}needle\n`);
+  writeFileSync(join(workspace, "backtrack.txt"), `${"a".repeat(60)}!\n`);
+  search = await import("./code-search");
+});
+
+afterAll(() => {
+  rmSync(workspace, { recursive: true, force: true });
+});
+
+describe("searchCode", () => {
+  it("find literal matches with their line and column", async () => {
+    const result = await search.searchCode(workspace, { query: "answer", include: ["*.ts"] });
+    expect(result.matches.map((m) => `${m.path}:${m.line}:${m.column}`)).toEqual(["app.ts:1:7", "app.ts:3:10"]);
+  });
+
+  it("find regular expression matches", async () => {
+    const result = await search.searchCode(workspace, { query: "function\\s+(\\w+)", regex: true });
+    expect(result.matches.map((m) => `${m.path}:${m.line}:${m.column}`)).toEqual(["app.ts:2:8"]);
+  });
+
+  it.each(["(.*a){10}$", "(a|a)*b"])("stop the catastrophic pattern %s at the time limit", async (query) => {
+    const started = Date.now();
+    const result = await search.searchCode(workspace, { query, regex: true, include: ["backtrack.txt"], timeLimitMs: 500 });
+    expect(result.timedOut).toBe(true);
+    expect(result.truncated).toBe(true);
+    expect(Date.now() - started).toBeLessThan(3_000);
+  });
+
+  it("match only the start of very long lines", async () => {
+    const result = await search.searchCode(workspace, { query: "needle", include: ["bundle.js"] });
+    expect(result.matches).toEqual([]);
+  });
+});
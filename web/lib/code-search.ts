@@ -0,0 +1,261 @@
+/**
+ * Code Search
+ *
+ * Literal or regex search across the workspace for the `search_code` tool.
+ * The walk starts from a path already confined by `resolveWorkspacePath`,
+ * skips ignored entries like the directory listing (see lib/workspace-ignore),
+ * never follows symlinked directories, and only reads symlinked files that
+ * resolve inside the workspace. Binary and very large files are skipped.
+ *
+ * Regular expressions come from the model, so they are kept from stalling
+ * the server: they are matched in a worker thread that is terminated at the
+ * time limit, and only the start of very long lines is matched.
+ */
+
+import { readdir, readFile, realpath, stat } from "fs/promises";
+import { join } from "path";
+import { Worker } from "worker_threads";
+import { isOutsideWorkspace, toWorkspaceRelativePath } from "./workspace";
+import { descendIgnoreContext, globToRegExp, ignoreContextFor, isIgnored, type IgnoreContext } from "./workspace-ignore";
+
+export interface SearchOptions {
+  query: string;
+  /** Treat `query` as a regular expression instead of a literal. */
+  regex?: boolean;
+  caseSensitive?: boolean;
+  /** Globs a file's workspace-relative path must match (any of); a glob without `/` matches the file name. */
+  include?: string[];
+  exclude?: string[];
+  contextLines?: number;
+  maxResults?: number;
+  /** Default 5 seconds. */
+  timeLimitMs?: number;
+}
+
+export interface SearchMatch {
+  /** Workspace-relative path. */
+  path: string;
+  /** 1-based line and column of the match. */
+  line: number;
+  column: number;
+  text: string;
+  before: string[];
+  after: string[];
+}
+
+export interface SearchResult {
+  matches: SearchMatch[];
+  filesSearched: number;
+  filesMatched: number;
+  /** More matches exist than were returned, or the time budget ran out. */
+  truncated: boolean;
+  timedOut: boolean;
+}
+
+const DEFAULT_CONTEXT_LINES = 2;
+const DEFAULT_MAX_RESULTS = 50;
+const MAX_FILE_BYTES = 1_000_000;
+const MAX_LINE_CHARS = 300;
+// Lines (minified code) are only matched up to this many characters
+const MAX_MATCHED_LINE_CHARS = 4_000;
+// Lines searched between checks of the time limit
+const DEADLINE_CHECK_LINES = 256;
+const SEARCH_TIME_LIMIT_MS = 5_000;
+const BINARY_SNIFF_BYTES = 8_000;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** First match on each matching line, as [line index, column index]; null when the deadline passed first. */
+interface LineMatcher {
+  match(lines: string[]): Promise<[number, number][] | null>;
+  close(): void;
+}
+
+/** Literal queries compile to linear-time patterns, so they run in-thread, checking the deadline between lines. */
+function inlineMatcher(pattern: RegExp, deadline: number): LineMatcher {
+  return {
+    async match(lines) {
+      const hits: [number, number][] = [];
+      for (let i = 0; i < lines.length; i++) {
+        if (i % DEADLINE_CHECK_LINES === 0 && Date.now() > deadline) return null;
+        const hit = pattern.exec(lines[i]);
+        if (hit) hits.push([i, hit.index]);
+      }
+      return hits;
+    },
+    close() {},
+  };
+}
+
+// Runs in a worker thread; a single exec can backtrack for minutes, and only terminating the thread stops it
+const MATCHER_WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const pattern = new RegExp(workerData.source, workerData.flags);
+parentPort.on("message", (lines) => {
+  const hits = [];
+  for (let i = 0; i < lines.length; i++) {
+    const hit = pattern.exec(lines[i]);
+    if (hit) hits.push([i, hit.index]);
+  }
+  parentPort.postMessage(hits);
+});
+`;
+
+/**
+ * Regular expressions from the model run in a worker thread that is
+ * terminated when the deadline passes, so catastrophic backtracking (e.g.
+ * `(.*a){10}$` or `(a|a)*b`) can't block the server.
+ */
+function workerMatcher(pattern: RegExp, deadline: number): LineMatcher {
+  const worker = new Worker(MATCHER_WORKER_SOURCE, { eval: true, workerData: { source: pattern.source, flags: pattern.flags } });
+  let settle: ((hits: [number, number][] | null, error?: Error) => void) | null = null;
+  worker.on("message", (hits: [number, number][]) => settle?.(hits));
+  worker.on("error", (err) => settle?.(null, err));
+  return {
+    match(lines) {
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          void worker.terminate();
+          settle?.(null);
+        }, Math.max(0, deadline - Date.now()));
+        settle = (hits, error) => {
+          clearTimeout(timer);
+          settle = null;
+          if (error) reject(error);
+          else resolve(hits);
+        };
+        worker.postMessage(lines);
+      });
+    },
+    close() {
+      void worker.terminate();
+    },
+  };
+}
+
+function globMatcher(globs: string[] | undefined): ((path: string) => boolean) | null {
+  if (!globs?.length) return null;
+  const compiled = globs.map((glob) => {
+    const normalized = glob.replace(/^\.\//, "");
+    return { regexp: globToRegExp(normalized), byName: !normalized.includes("/") };
+  });
+  return (path) => {
+    const name = path.slice(path.lastIndexOf("/") + 1);
+    return compiled.some(({ regexp, byName }) => regexp.test(byName ? name : path));
+  };
+}
+
+function clip(line: string): string {
+  return line.length > MAX_LINE_CHARS ? `${line.slice(0, MAX_LINE_CHARS)}…` : line;
+}
+
+/** Search files under `absoluteRoot` (an already confined workspace path). */
+export async function searchCode(absoluteRoot: string, options: SearchOptions): Promise<SearchResult> {
+  if (!options.query) throw new Error("A non-empty query is required.");
+  const flags = options.caseSensitive ? "" : "i";
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(options.regex ? options.query : escapeRegExp(options.query), flags);
+  } catch (err: any) {
+    throw new Error(`Invalid regular expression: ${err.message}`);
+  }
+  const included = globMatcher(options.include);
+  const excluded = globMatcher(options.exclude);
+  const contextLines = options.contextLines ?? DEFAULT_CONTEXT_LINES;
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+  const deadline = Date.now() + (options.timeLimitMs ?? SEARCH_TIME_LIMIT_MS);
+  const matcher = options.regex ? workerMatcher(pattern, deadline) : inlineMatcher(pattern, deadline);
+
+  const result: SearchResult = { matches: [], filesSearched: 0, filesMatched: 0, truncated: false, timedOut: false };
+
+  async function searchFile(absolutePath: string, relativePath: string) {
+    const info = await stat(absolutePath);
+    if (info.size > MAX_FILE_BYTES) return;
+    const buffer = await readFile(absolutePath);
+    if (buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0)) return;
+    result.filesSearched++;
+
+    const lines = buffer.toString("utf-8").split(/\r?\n/);
+    const hits = await matcher.match(
+      lines.map((line) => (line.length > MAX_MATCHED_LINE_CHARS ? line.slice(0, MAX_MATCHED_LINE_CHARS) : line))
+    );
+    if (!hits) {
+      result.truncated = result.timedOut = true;
+      return;
+    }
+    let matched = false;
+    for (const [i, index] of hits) {
+      if (result.matches.length >= maxResults) {
+        result.truncated = true;
+        return;
+      }
+      if (!matched) result.filesMatched++;
+      matched = true;
+      result.matches.push({
+        path: relativePath,
+        line: i + 1,
+        column: index + 1,
+        text: clip(lines[i]),
+        before: lines.slice(Math.max(0, i - contextLines), i).map(clip),
+        after: lines.slice(i + 1, i + 1 + contextLines).map(clip),
+      });
+    }
+  }
+
+  async function walk(directory: string, ignore: IgnoreContext) {
+    let entries;
+    try {
+      entries = await readdir(directory, { withFileTypes: true });
+    } catch {
+      return; // Permission denied
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      if (result.truncated) return;
+      if (Date.now() > deadline) {
+        result.truncated = result.timedOut = true;
+        return;
+      }
+      const absolutePath = join(directory, entry.name);
+      const relativePath = toWorkspaceRelativePath(absolutePath).split("\\").join("/");
+      if (isIgnored(ignore, relativePath, entry.isDirectory())) continue;
+
+      if (entry.isDirectory()) {
+        await walk(absolutePath, await descendIgnoreContext(ignore, absolutePath, relativePath));
+        continue;
+      }
+      if (entry.isSymbolicLink()) {
+        // Linked files are searched only when they resolve inside the workspace; linked directories never
+        try {
+          const target = await realpath(absolutePath);
+          if (isOutsideWorkspace(target) || !(await stat(target)).isFile()) continue;
+        } catch {
+          continue;
+        }
+      } else if (!entry.isFile()) {
+        continue;
+      }
+      if (included && !included(relativePath)) continue;
+      if (excluded && excluded(relativePath)) continue;
+      try {
+        await searchFile(absolutePath, relativePath);
+      } catch {
+        // Unreadable file
+      }
+    }
+  }
+
+  try {
+    const rootInfo = await stat(absoluteRoot);
+    if (rootInfo.isFile()) {
+      await searchFile(absoluteRoot, toWorkspaceRelativePath(absoluteRoot));
+    } else {
+      await walk(absoluteRoot, await ignoreContextFor(toWorkspaceRelativePath(absoluteRoot)));
+    }
+  } finally {
+    matcher.close();
+  }
+  return result;
+}
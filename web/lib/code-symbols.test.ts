@@ -0,0 +1,60 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+// The workspace root is fixed when lib/workspace loads, so point it at a scratch directory first
+const workspace = mkdtempSync(join(tmpdir(), "vibe-symbols-"));
+process.env.WORKSPACE_ROOT = workspace;
+
+let symbols: typeof import("./code-symbols");
+
+beforeAll(async () => {
+  writeFileSync(join(workspace, "greet.ts"), 'export function greet(name: string) {\n  return `hi ${name}`;\n}\n');
+  writeFileSync(join(workspace, "main.ts"), 'import { greet } from "./greet";\n\nconsole.log(greet("a"), greet("b"));\n');
+  writeFileSync(join(workspace, "bundle.js"), `export const blob = "${"x".repeat(1_100_000)}";\n`);
+  symbols = await import("./code-symbols");
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  rmSync(workspace, { recursive: true, force: true });
+});
+
+describe("getOutline", () => {
+  it("list a file's exported declarations", async () => {
+    const outline = await symbols.getOutline(join(workspace, "greet.ts"));
+    expect(outline).toEqual([{ name: "greet", kind: "function", exported: true, line: 1, endLine: 3 }]);
+  });
+
+  it("refuse files over the size limit", async () => {
+    await expect(symbols.getOutline(join(workspace, "bundle.js"))).rejects.toThrow(/too large for symbol lookup/);
+  });
+});
+
+describe("findDefinition", () => {
+  it("find the definition and references across files", async () => {
+    const result = await symbols.findDefinition("greet", { absolutePath: join(workspace, "main.ts"), line: 3 });
+    expect(result.definitions.map((d) => `${d.path}:${d.line}`)).toEqual(["greet.ts:1"]);
+    expect(result.references.filter((r) => r.path === "main.ts")).toHaveLength(3);
+    expect(result.timedOut).toBe(false);
+  });
+
+  it("leave oversized files out of the project", async () => {
+    const result = await symbols.findDefinition("blob");
+    expect(result.definitions).toEqual([]);
+    expect(result.filesIndexed).toBe(2);
+  });
+
+  it("stop a lookup that runs past its time limit", async () => {
+    // Every clock read jumps ahead a minute, so the first cancellation check finds the deadline passed
+    let now = Date.now();
+    vi.spyOn(Date, "now").mockImplementation(() => (now += 60_000));
+    const result = await symbols.findDefinition("greet");
+    expect(result.timedOut).toBe(true);
+    expect(result.truncated).toBe(true);
+  });
+});
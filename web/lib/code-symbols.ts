@@ -0,0 +1,521 @@
+/**
+ * Code Symbols
+ *
+ * Outlines and symbol lookup for TypeScript and JavaScript, backed by the
+ * TypeScript compiler API. `getOutline` parses a single file (no type
+ * checking); `findDefinition` runs a language service over the workspace's
+ * source files, found with the same ignore rules as the directory listing.
+ * The service is kept between calls and only re-reads files whose
+ * modification time changed. Locations outside the workspace (the default
+ * lib, globally installed types) are never returned.
+ *
+ * The language service runs on the request's thread, so its work is bounded:
+ * oversized files (bundles, generated code) are neither outlined nor indexed,
+ * the project is capped by file count and total size, and a lookup that runs
+ * past its time limit is cancelled and returns what it found so far.
+ */
+
+import ts from "typescript";
+import { readdirSync, statSync } from "fs";
+import { readdir, readFile, stat } from "fs/promises";
+import { dirname, extname, join } from "path";
+import { WORKSPACE_ROOT_REAL, isOutsideWorkspace, toWorkspaceRelativePath } from "./workspace";
+import { descendIgnoreContext, ignoreContextFor, isIgnored, type IgnoreContext } from "./workspace-ignore";
+
+export type SymbolKind =
+  | "function"
+  | "class"
+  | "interface"
+  | "type"
+  | "enum"
+  | "namespace"
+  | "variable"
+  | "method"
+  | "property"
+  | "constructor"
+  | "accessor"
+  | "member"
+  | "export";
+
+export interface OutlineSymbol {
+  name: string;
+  kind: SymbolKind;
+  exported: boolean;
+  /** 1-based, inclusive line range of the whole declaration. */
+  line: number;
+  endLine: number;
+  /** Module a re-export comes from (`export { x } from "./y"`). */
+  from?: string;
+  children?: OutlineSymbol[];
+}
+
+export interface SymbolLocation {
+  /** Workspace-relative path. */
+  path: string;
+  line: number;
+  column: number;
+  /** Last line of the declaration, for definitions. */
+  endLine?: number;
+  kind?: string;
+  container?: string;
+  /** The source line, trimmed. */
+  text: string;
+  isDefinition?: boolean;
+}
+
+export interface DefinitionResult {
+  definitions: SymbolLocation[];
+  references: SymbolLocation[];
+  /** More references exist than were returned, or the time limit ran out. */
+  truncated: boolean;
+  timedOut: boolean;
+  filesIndexed: number;
+}
+
+const SOURCE_EXTENSIONS = new Set([".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"]);
+const MAX_PROJECT_FILES = 2_000;
+const MAX_SOURCE_FILE_BYTES = 1_000_000;
+const MAX_PROJECT_BYTES = 20_000_000;
+const LOOKUP_TIME_LIMIT_MS = 5_000;
+// The workspace is walked again after this long, so lookups in quick succession share a listing
+const FILE_LIST_TTL_MS = 10_000;
+const MAX_DEFINITIONS = 20;
+const MAX_REFERENCES = 100;
+const MAX_TEXT_CHARS = 200;
+
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  allowJs: true,
+  checkJs: false,
+  jsx: ts.JsxEmit.Preserve,
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  skipLibCheck: true,
+  noEmit: true,
+};
+
+export function isSourceFile(path: string): boolean {
+  return SOURCE_EXTENSIONS.has(extname(path).toLowerCase());
+}
+
+function scriptKindFor(path: string): ts.ScriptKind {
+  switch (extname(path).toLowerCase()) {
+    case ".tsx":
+      return ts.ScriptKind.TSX;
+    case ".jsx":
+      return ts.ScriptKind.JSX;
+    case ".js":
+    case ".mjs":
+    case ".cjs":
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+function tooLargeError(absolutePath: string, size: number): Error {
+  return new Error(
+    `${toWorkspaceRelativePath(absolutePath)} is too large for symbol lookup (${size} bytes; the limit is ${MAX_SOURCE_FILE_BYTES}). ` +
+      "Use search_code, or read_file with a line range, instead."
+  );
+}
+
+function lineOf(sourceFile: ts.SourceFile, position: number): number {
+  return sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+}
+
+// ---------------------------------------------------------------------------
+// Outline
+// ---------------------------------------------------------------------------
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) || []).some((m) => m.kind === kind);
+}
+
+function symbol(
+  sourceFile: ts.SourceFile,
+  node: ts.Node,
+  name: string,
+  kind: SymbolKind,
+  exported: boolean,
+  children?: OutlineSymbol[]
+): OutlineSymbol {
+  return {
+    name,
+    kind,
+    exported,
+    line: lineOf(sourceFile, node.getStart(sourceFile)),
+    endLine: lineOf(sourceFile, node.end),
+    ...(children?.length ? { children } : {}),
+  };
+}
+
+function memberName(sourceFile: ts.SourceFile, member: ts.ClassElement | ts.TypeElement | ts.EnumMember): string {
+  if (ts.isConstructorDeclaration(member)) return "constructor";
+  return member.name ? member.name.getText(sourceFile) : "(anonymous)";
+}
+
+function memberKind(member: ts.Node): SymbolKind {
+  if (ts.isMethodDeclaration(member) || ts.isMethodSignature(member)) return "method";
+  if (ts.isConstructorDeclaration(member)) return "constructor";
+  if (ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) return "accessor";
+  if (ts.isEnumMember(member)) return "member";
+  return "property";
+}
+
+function membersOf(
+  sourceFile: ts.SourceFile,
+  members: ts.NodeArray<ts.ClassElement | ts.TypeElement | ts.EnumMember>
+): OutlineSymbol[] {
+  return members
+    .filter((member) => !ts.isSemicolonClassElement(member) && !ts.isIndexSignatureDeclaration(member))
+    .map((member) => symbol(sourceFile, member, memberName(sourceFile, member), memberKind(member), false));
+}
+
+function isFunctionLike(node: ts.Expression | undefined): boolean {
+  return !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+}
+
+function outlineStatements(sourceFile: ts.SourceFile, statements: ts.NodeArray<ts.Statement>): OutlineSymbol[] {
+  const symbols: OutlineSymbol[] = [];
+  // `export { a, b as c }` without `from` exports declarations made elsewhere in the file
+  const localExports = new Map<string, string>();
+
+  for (const statement of statements) {
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+    const nameOf = (name: ts.Node | undefined) => (name ? name.getText(sourceFile) : isDefault ? "default" : "(anonymous)");
+
+    if (ts.isFunctionDeclaration(statement)) {
+      symbols.push(symbol(sourceFile, statement, nameOf(statement.name), "function", exported));
+    } else if (ts.isClassDeclaration(statement)) {
+      symbols.push(symbol(sourceFile, statement, nameOf(statement.name), "class", exported, membersOf(sourceFile, statement.members)));
+    } else if (ts.isInterfaceDeclaration(statement)) {
+      symbols.push(symbol(sourceFile, statement, nameOf(statement.name), "interface", exported, membersOf(sourceFile, statement.members)));
+    } else if (ts.isTypeAliasDeclaration(statement)) {
+      symbols.push(symbol(sourceFile, statement, nameOf(statement.name), "type", exported));
+    } else if (ts.isEnumDeclaration(statement)) {
+      symbols.push(symbol(sourceFile, statement, nameOf(statement.name), "enum", exported, membersOf(sourceFile, statement.members)));
+    } else if (ts.isModuleDeclaration(statement)) {
+      const body = statement.body && ts.isModuleBlock(statement.body) ? outlineStatements(sourceFile, statement.body.statements) : [];
+      symbols.push(symbol(sourceFile, statement, nameOf(statement.name), "namespace", exported, body));
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        // Destructuring patterns are listed by their pattern text
+        const kind = isFunctionLike(declaration.initializer) ? "function" : "variable";
+        const node = statement.declarationList.declarations.length === 1 ? statement : declaration;
+        symbols.push(symbol(sourceFile, node, declaration.name.getText(sourceFile), kind, exported));
+      }
+    } else if (ts.isExportAssignment(statement)) {
+      symbols.push(symbol(sourceFile, statement, statement.isExportEquals ? "export=" : "default", "export", true));
+    } else if (ts.isExportDeclaration(statement)) {
+      const from = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier) ? statement.moduleSpecifier.text : undefined;
+      const clause = statement.exportClause;
+      if (!clause) {
+        symbols.push({ ...symbol(sourceFile, statement, "*", "export", true), from });
+      } else if (ts.isNamespaceExport(clause)) {
+        symbols.push({ ...symbol(sourceFile, statement, clause.name.text, "export", true), from });
+      } else {
+        for (const element of clause.elements) {
+          const local = (element.propertyName || element.name).getText(sourceFile);
+          if (from) {
+            symbols.push({ ...symbol(sourceFile, element, element.name.text, "export", true), from });
+          } else {
+            localExports.set(local, element.name.text);
+          }
+        }
+      }
+    }
+  }
+
+  for (const [local, exportedAs] of Array.from(localExports)) {
+    const declared = symbols.find((s) => s.name === local);
+    if (declared && exportedAs === local) declared.exported = true;
+    else if (declared) symbols.push({ ...declared, name: exportedAs, kind: "export", exported: true, children: undefined });
+  }
+  return symbols;
+}
+
+/** Top-level declarations of a file, with class, interface, enum and namespace members one level down. */
+export async function getOutline(absolutePath: string): Promise<OutlineSymbol[]> {
+  if (!isSourceFile(absolutePath)) {
+    throw new Error(`Symbols are only available for TypeScript and JavaScript files (${Array.from(SOURCE_EXTENSIONS).join(", ")}).`);
+  }
+  const { size } = await stat(absolutePath);
+  if (size > MAX_SOURCE_FILE_BYTES) throw tooLargeError(absolutePath, size);
+  const text = await readFile(absolutePath, "utf-8");
+  const sourceFile = ts.createSourceFile(absolutePath, text, ts.ScriptTarget.Latest, true, scriptKindFor(absolutePath));
+  return outlineStatements(sourceFile, sourceFile.statements);
+}
+
+// ---------------------------------------------------------------------------
+// Language service
+// ---------------------------------------------------------------------------
+
+interface Project {
+  service: ts.LanguageService;
+  fileNames: string[];
+  /** The lookup in progress is cancelled once this passes. */
+  deadline: number;
+}
+
+// One language service per tsconfig (or the defaults when there is none)
+const projects = new Map<string, Project>();
+let fileList: { files: string[]; listedAt: number } | null = null;
+
+async function listSourceFiles(): Promise<string[]> {
+  if (fileList && Date.now() - fileList.listedAt < FILE_LIST_TTL_MS) return fileList.files;
+  const files: string[] = [];
+  let bytes = 0;
+  async function walk(directory: string, ignore: IgnoreContext) {
+    let entries;
+    try {
+      entries = await readdir(directory, { withFileTypes: true });
+    } catch {
+      return; // Permission denied
+    }
+    for (const entry of entries) {
+      if (files.length >= MAX_PROJECT_FILES || bytes >= MAX_PROJECT_BYTES) return;
+      const absolutePath = join(directory, entry.name);
+      const relativePath = toWorkspaceRelativePath(absolutePath).split("\\").join("/");
+      if (isIgnored(ignore, relativePath, entry.isDirectory())) continue;
+      if (entry.isDirectory()) {
+        await walk(absolutePath, await descendIgnoreContext(ignore, absolutePath, relativePath));
+      } else if (entry.isFile() && isSourceFile(entry.name)) {
+        const { size } = await stat(absolutePath).catch(() => ({ size: Infinity }));
+        if (size > MAX_SOURCE_FILE_BYTES) continue;
+        files.push(absolutePath);
+        bytes += size;
+      }
+    }
+  }
+  await walk(WORKSPACE_ROOT_REAL, await ignoreContextFor("."));
+  fileList = { files, listedAt: Date.now() };
+  return files;
+}
+
+/** The nearest tsconfig.json or jsconfig.json at or above `directory`, if it is inside the workspace. */
+function findConfig(directory: string): string | undefined {
+  for (const name of ["tsconfig.json", "jsconfig.json"]) {
+    const found = ts.findConfigFile(directory, ts.sys.fileExists, name);
+    if (found && !isOutsideWorkspace(found)) return found;
+  }
+  return undefined;
+}
+
+function compilerOptionsFor(configPath: string | undefined): ts.CompilerOptions {
+  if (!configPath) return DEFAULT_COMPILER_OPTIONS;
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) return DEFAULT_COMPILER_OPTIONS;
+  const parsed = ts.parseJsonConfigFileContent(config, ts.sys, dirname(configPath));
+  return { ...parsed.options, allowJs: true, noEmit: true };
+}
+
+/** Declaration files (dependency types) are read whole; oversized sources are indexed as empty. */
+function readSource(fileName: string): string | undefined {
+  if (!fileName.endsWith(".d.ts")) {
+    try {
+      if (statSync(fileName).size > MAX_SOURCE_FILE_BYTES) return "";
+    } catch {
+      return undefined;
+    }
+  }
+  return ts.sys.readFile(fileName);
+}
+
+function fileVersion(fileName: string): string {
+  try {
+    return String(statSync(fileName).mtimeMs);
+  } catch {
+    return "0";
+  }
+}
+
+async function projectFor(directory: string): Promise<Project> {
+  const configPath = findConfig(directory);
+  const key = configPath || "";
+  const fileNames = await listSourceFiles();
+  const existing = projects.get(key);
+  if (existing) {
+    existing.fileNames = [...fileNames];
+    return existing;
+  }
+
+  const options = compilerOptionsFor(configPath);
+  const project: Project = { fileNames: [...fileNames], service: undefined as unknown as ts.LanguageService, deadline: Infinity };
+  const host: ts.LanguageServiceHost = {
+    getScriptFileNames: () => project.fileNames,
+    getScriptVersion: fileVersion,
+    getScriptSnapshot: (fileName) => {
+      const text = readSource(fileName);
+      return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+    },
+    getCancellationToken: () => ({ isCancellationRequested: () => Date.now() > project.deadline }),
+    getCurrentDirectory: () => WORKSPACE_ROOT_REAL,
+    getCompilationSettings: () => options,
+    getDefaultLibFileName: ts.getDefaultLibFilePath,
+    fileExists: ts.sys.fileExists,
+    readFile: ts.sys.readFile,
+    readDirectory: ts.sys.readDirectory,
+    directoryExists: ts.sys.directoryExists,
+    getDirectories: (path) => {
+      try {
+        return readdirSync(path, { withFileTypes: true }).filter((e) => e.isDirectory()).map((e) => e.name);
+      } catch {
+        return [];
+      }
+    },
+  };
+  project.service = ts.createLanguageService(host, ts.createDocumentRegistry());
+  projects.set(key, project);
+  return project;
+}
+
+// ---------------------------------------------------------------------------
+// Definitions and references
+// ---------------------------------------------------------------------------
+
+function location(
+  program: ts.Program,
+  fileName: string,
+  span: ts.TextSpan,
+  extra: Partial<SymbolLocation> = {},
+  contextSpan?: ts.TextSpan
+): SymbolLocation | null {
+  if (isOutsideWorkspace(fileName)) return null;
+  const sourceFile = program.getSourceFile(fileName);
+  if (!sourceFile) return null;
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(span.start);
+  const lineStarts = sourceFile.getLineStarts();
+  const lineText = sourceFile.text.slice(lineStarts[line], lineStarts[line + 1] ?? sourceFile.text.length).trim();
+  return {
+    path: toWorkspaceRelativePath(fileName).split("\\").join("/"),
+    line: line + 1,
+    column: character + 1,
+    ...(contextSpan ? { endLine: lineOf(sourceFile, contextSpan.start + contextSpan.length) } : {}),
+    text: lineText.length > MAX_TEXT_CHARS ? `${lineText.slice(0, MAX_TEXT_CHARS)}…` : lineText,
+    ...extra,
+  };
+}
+
+/** Module containers are quoted absolute paths; only classes, namespaces and the like are worth showing. */
+function containerName(name: string): string | undefined {
+  return name && !name.startsWith('"') ? name : undefined;
+}
+
+/** Positions of identifiers named `name` in a file, preferring ones on `line` when given. */
+function identifierPositions(sourceFile: ts.SourceFile, name: string, line?: number): number[] {
+  const positions: number[] = [];
+  const visit = (node: ts.Node) => {
+    if ((ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) && node.text === name) {
+      positions.push(node.getStart(sourceFile));
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  if (line === undefined) return positions;
+  const onLine = positions.filter((position) => lineOf(sourceFile, position) === line);
+  return onLine.length ? onLine : positions;
+}
+
+/**
+ * Definitions and references of `name`. With `absolutePath`, the name is
+ * resolved as it is used in that file (following imports), preferring the
+ * occurrence on `line`; without it, declarations with that exact name are
+ * looked up across the workspace. A lookup cut off by the time limit returns
+ * what it found with `timedOut` set.
+ */
+export async function findDefinition(
+  name: string,
+  { absolutePath, line }: { absolutePath?: string; line?: number } = {}
+): Promise<DefinitionResult> {
+  if (absolutePath && !isSourceFile(absolutePath)) {
+    throw new Error(`Symbols are only available for TypeScript and JavaScript files (${Array.from(SOURCE_EXTENSIONS).join(", ")}).`);
+  }
+  if (absolutePath) {
+    const { size } = await stat(absolutePath);
+    if (size > MAX_SOURCE_FILE_BYTES) throw tooLargeError(absolutePath, size);
+  }
+  const project = await projectFor(absolutePath ? dirname(absolutePath) : WORKSPACE_ROOT_REAL);
+  if (absolutePath && !project.fileNames.includes(absolutePath)) project.fileNames.push(absolutePath);
+  const { service } = project;
+
+  const definitions: SymbolLocation[] = [];
+  const references: SymbolLocation[] = [];
+  let truncated = false;
+  let timedOut = false;
+  project.deadline = Date.now() + LOOKUP_TIME_LIMIT_MS;
+  try {
+    const program = service.getProgram();
+    if (!program) throw new Error("The TypeScript language service could not build a program for this workspace.");
+
+    // Where to ask for definitions and references: usages in the given file, or declarations found by name
+    const anchors: { fileName: string; position: number }[] = [];
+    const seen = new Set<string>();
+    const addDefinition = (found: SymbolLocation | null) => {
+      if (!found || seen.has(`${found.path}:${found.line}:${found.column}`)) return;
+      seen.add(`${found.path}:${found.line}:${found.column}`);
+      definitions.push({ ...found, isDefinition: true });
+    };
+
+    if (absolutePath) {
+      const sourceFile = program.getSourceFile(absolutePath);
+      if (!sourceFile) throw new Error(`${toWorkspaceRelativePath(absolutePath)} is not part of the TypeScript project.`);
+      const positions = identifierPositions(sourceFile, name, line);
+      if (!positions.length) throw new Error(`"${name}" does not appear in ${toWorkspaceRelativePath(absolutePath)}.`);
+      for (const position of positions) {
+        const found = service.getDefinitionAtPosition(absolutePath, position) || [];
+        for (const def of found) {
+          addDefinition(location(program, def.fileName, def.textSpan, { kind: def.kind, container: containerName(def.containerName) }, def.contextSpan));
+        }
+        if (found.length) {
+          anchors.push({ fileName: absolutePath, position });
+          break;
+        }
+      }
+    } else {
+      for (const item of service.getNavigateToItems(name, MAX_DEFINITIONS * 5)) {
+        if (item.name !== name || item.matchKind !== "exact") continue;
+        // The item spans the whole declaration; references are asked for at the declared name
+        const sourceFile = program.getSourceFile(item.fileName);
+        const nameStart = sourceFile ? sourceFile.text.indexOf(name, item.textSpan.start) : -1;
+        const position = nameStart >= 0 ? nameStart : item.textSpan.start;
+        const before = definitions.length;
+        addDefinition(
+          location(
+            program,
+            item.fileName,
+            { start: position, length: name.length },
+            { kind: item.kind, container: containerName(item.containerName) },
+            item.textSpan
+          )
+        );
+        if (definitions.length > before) anchors.push({ fileName: item.fileName, position });
+        if (definitions.length >= MAX_DEFINITIONS) break;
+      }
+    }
+
+    const referenced = new Set<string>();
+    for (const anchor of anchors) {
+      for (const group of service.findReferences(anchor.fileName, anchor.position) || []) {
+        for (const ref of group.references) {
+          const found = location(program, ref.fileName, ref.textSpan, { isDefinition: !!ref.isDefinition });
+          if (!found || referenced.has(`${found.path}:${found.line}:${found.column}`)) continue;
+          referenced.add(`${found.path}:${found.line}:${found.column}`);
+          if (references.length >= MAX_REFERENCES) {
+            truncated = true;
+            break;
+          }
+          references.push(found);
+        }
+      }
+    }
+  } catch (err) {
+    if (!(err instanceof ts.OperationCanceledException)) throw err;
+    truncated = timedOut = true;
+  } finally {
+    project.deadline = Infinity;
+  }
+
+  return { definitions, references, truncated, timedOut, filesIndexed: project.fileNames.length };
+}
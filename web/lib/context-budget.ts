@@ -0,0 +1,209 @@
+/**
+ * Context Budget
+ *
+ * Context-window sizes per `provider/model` label, a rough token estimate for
+ * a request (system prompt, tool schemas, history and the new input), and
+ * `fitHistory`, which condenses history that doesn't fit: first large tool
+ * results are elided, oldest first, then whole early turns are folded into
+ * a short extractive summary. Only the request is condensed; the session
+ * keeps the full transcript.
+ */
+
+import type { FunctionResult, HistoryMessage, ToolDef } from "./ai-providers";
+import { loadProviderConfig } from "./provider-config";
+
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  "openai/gpt-4o": 128_000,
+  "openai/gpt-4o-mini": 128_000,
+  "anthropic/claude-sonnet-4-20250514": 200_000,
+  "anthropic/claude-3-5-haiku-20241022": 200_000,
+  "gemini/gemini-2.0-flash": 1_048_576,
+  "gemini/gemini-1.5-flash": 1_048_576,
+  "deepseek/deepseek-chat": 64_000,
+  "deepseek/deepseek-reasoner": 64_000,
+  "moonshot/moonshot-v1-128k": 128_000,
+  "moonshot/moonshot-v1-32k": 32_768,
+  "alibaba/qwen-turbo": 131_072,
+  "alibaba/qwen-plus": 131_072,
+  "mistral/mistral-large-latest": 128_000,
+  "mistral/mistral-small-latest": 32_000,
+  "grok/grok-3-mini-fast": 131_072,
+  "grok/grok-3-mini": 131_072,
+};
+
+/** Assumed for models missing from the table and the provider config. */
+const DEFAULT_CONTEXT_WINDOW = 32_768;
+/** Tokens kept free for the model's reply. */
+const MAX_OUTPUT_RESERVE = 4_096;
+/** Conservative characters-per-token ratio (JSON and code tokenize densely). */
+const CHARS_PER_TOKEN = 3.5;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+/** Tool results smaller than this are never elided. */
+const ELIDE_MIN_CHARS = 1_000;
+const SUMMARY_SNIPPET_CHARS = 200;
+
+export interface ContextReport {
+  label: string;
+  windowTokens: number;
+  /** Estimate before condensing. */
+  estimatedTokens: number;
+  /** Estimate of what was sent. */
+  finalTokens: number;
+  summarizedTurns: number;
+  elidedResults: number;
+}
+
+export function contextWindow(label: string): number {
+  try {
+    for (const def of loadProviderConfig().providers) {
+      for (const [model, tokens] of Object.entries(def.context_windows)) {
+        if (`${def.name}/${model}` === label) return tokens;
+      }
+    }
+  } catch {
+    // An invalid config already fails provider selection
+  }
+  return MODEL_CONTEXT_WINDOWS[label] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/** Input tokens a request to `label` may use, leaving room for the reply. */
+export function contextBudget(label: string): number {
+  const window = contextWindow(label);
+  return window - Math.min(MAX_OUTPUT_RESERVE, Math.floor(window / 8));
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function messageTokens(message: HistoryMessage): number {
+  const body =
+    message.role === "tool"
+      ? JSON.stringify(message.results)
+      : message.content + (message.role === "assistant" && message.functionCalls ? JSON.stringify(message.functionCalls) : "");
+  return estimateTokens(body) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export function estimateHistoryTokens(history: HistoryMessage[]): number {
+  return history.reduce((sum, message) => sum + messageTokens(message), 0);
+}
+
+/** Tokens of everything in a request except the history. */
+export function estimateFixedTokens(systemPrompt: string, tools: ToolDef[], input: string | FunctionResult[]): number {
+  const toolSchemas = JSON.stringify(tools.map(({ name, description, parameters }) => ({ name, description, parameters })));
+  return (
+    estimateTokens(systemPrompt) +
+    estimateTokens(toolSchemas) +
+    estimateTokens(typeof input === "string" ? input : JSON.stringify(input)) +
+    MESSAGE_OVERHEAD_TOKENS
+  );
+}
+
+export function estimateRequestTokens(
+  systemPrompt: string,
+  tools: ToolDef[],
+  history: HistoryMessage[],
+  input: string | FunctionResult[]
+): number {
+  return estimateFixedTokens(systemPrompt, tools, input) + estimateHistoryTokens(history);
+}
+
+// ---------------------------------------------------------------------------
+// Condensing
+// ---------------------------------------------------------------------------
+
+/** Keep a result's short scalar fields (path, status, exit code, error) so the model knows what it was. */
+function elideResult(result: FunctionResult, size: number): FunctionResult {
+  const kept: Record<string, unknown> = {};
+  if (result.result && typeof result.result === "object") {
+    for (const [key, value] of Object.entries(result.result)) {
+      if (["string", "number", "boolean"].includes(typeof value) && String(value).length <= SUMMARY_SNIPPET_CHARS) {
+        kept[key] = value;
+      }
+    }
+  }
+  return {
+    ...result,
+    result: {
+      ...kept,
+      elided: true,
+      note: `${result.name} result (${size} chars) removed to fit the context window; call the tool again if you need it.`,
+    },
+  };
+}
+
+function snippet(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > SUMMARY_SNIPPET_CHARS ? `${flat.slice(0, SUMMARY_SNIPPET_CHARS)}…` : flat;
+}
+
+function describeCall(call: { name: string; args: Record<string, any> }): string {
+  const target = call.args?.path ?? call.args?.command ?? call.args?.query ?? call.args?.cwd;
+  return typeof target === "string" ? `${call.name} ${snippet(target)}` : call.name;
+}
+
+/** Extractive summary of condensed turns: what the user asked, what was answered, which tools ran. */
+function summarize(messages: HistoryMessage[]): string {
+  const lines: string[] = [];
+  for (const message of messages) {
+    if (message.role === "user") {
+      lines.push(`- User: ${snippet(message.content)}`);
+    } else if (message.role === "assistant") {
+      const calls = (message.functionCalls || []).map(describeCall);
+      const text = message.content ? snippet(message.content) : "";
+      if (text || calls.length) {
+        lines.push(`- Assistant: ${[text, calls.length ? `(called ${calls.join(", ")})` : ""].filter(Boolean).join(" ")}`);
+      }
+    }
+  }
+  return `[Summary of earlier conversation, condensed to fit the context window]\n${lines.join("\n")}`;
+}
+
+/**
+ * Condense `history` to at most `maxTokens`. Tool calls stay paired with their
+ * results, and turns are only folded at user-message boundaries; the latest
+ * user turn is always kept, so the result may still exceed a tiny budget.
+ */
+export function fitHistory(
+  history: HistoryMessage[],
+  maxTokens: number
+): { history: HistoryMessage[]; summarizedTurns: number; elidedResults: number } {
+  let fitted = history.map((m) => (m.role === "tool" ? { ...m, results: [...m.results] } : m));
+  let total = estimateHistoryTokens(fitted);
+  let elidedResults = 0;
+  let summarizedTurns = 0;
+
+  // 1. Elide large tool results, oldest first
+  for (const message of fitted) {
+    if (total <= maxTokens) break;
+    if (message.role !== "tool") continue;
+    const before = messageTokens(message);
+    message.results = message.results.map((r) => {
+      const size = JSON.stringify(r.result ?? null).length;
+      if (size < ELIDE_MIN_CHARS || r.result?.elided) return r;
+      elidedResults++;
+      return elideResult(r, size);
+    });
+    total += messageTokens(message) - before;
+  }
+
+  // 2. Fold whole early turns into a summary prepended to the first kept user message
+  const userIndexes = fitted.flatMap((m, i) => (m.role === "user" ? [i] : []));
+  for (let cut = 1; cut < userIndexes.length && total > maxTokens; cut++) {
+    const start = userIndexes[cut];
+    const head = history.slice(0, start);
+    const first = fitted[start] as Extract<HistoryMessage, { role: "user" }>;
+    const condensed: HistoryMessage[] = [
+      { role: "user", content: `${summarize(head)}\n\n${first.content}` },
+      ...fitted.slice(start + 1),
+    ];
+    summarizedTurns = cut;
+    total = estimateHistoryTokens(condensed);
+    if (total <= maxTokens || cut === userIndexes.length - 1) {
+      fitted = condensed;
+      break;
+    }
+  }
+
+  return { history: fitted, summarizedTurns, elidedResults };
+}
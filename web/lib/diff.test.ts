@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { applyHunks, detectLineEnding, parseUnifiedDiff } from "./diff";
+
+const patch = ["--- a/file.txt", "+++ b/file.txt", "@@ -1,3 +1,3 @@", " a", "-b", "+B", " c", ""].join("\n");
+
+describe("applyHunks", () => {
+  it("keeps CRLF line endings", () => {
+    expect(applyHunks("a\r\nb\r\nc\r\n", parseUnifiedDiff(patch))).toBe("a\r\nB\r\nc\r\n");
+  });
+
+  it("keeps LF line endings", () => {
+    expect(applyHunks("a\nb\nc\n", parseUnifiedDiff(patch))).toBe("a\nB\nc\n");
+  });
+
+  it("keeps a missing final newline", () => {
+    expect(applyHunks("a\r\nb\r\nc", parseUnifiedDiff(patch))).toBe("a\r\nB\r\nc");
+  });
+
+  it("applies a CRLF patch to a CRLF file", () => {
+    expect(applyHunks("a\r\nb\r\nc\r\n", parseUnifiedDiff(patch.replace(/\n/g, "\r\n")))).toBe("a\r\nB\r\nc\r\n");
+  });
+});
+
+describe("detectLineEnding", () => {
+  it("follows the majority of line breaks", () => {
+    expect(detectLineEnding("a\r\nb\r\nc\n")).toBe("\r\n");
+    expect(detectLineEnding("a\nb\nc\r\n")).toBe("\n");
+    expect(detectLineEnding("single line")).toBe("\n");
+  });
+});
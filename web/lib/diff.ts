@@ -0,0 +1,233 @@
+/**
+ * Line Diff Utilities
+ *
+ * Minimal unified-diff support for proposed file edits: compute hunks between
+ * two texts, parse a model-supplied unified diff, and apply hunks to a file.
+ * Hunks use the same shape as the DiffReview component props.
+ */
+
+export interface DiffLine {
+  type: "add" | "remove" | "context";
+  content: string;
+  lineNumber?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  newStart: number;
+  lines: DiffLine[];
+}
+
+const DEFAULT_CONTEXT_LINES = 3;
+// Above this many cells the LCS table is skipped and the changed region is
+// reported as one block replacement.
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Split text into lines, ignoring the empty element after a trailing newline. */
+export function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/** The file's line ending: CRLF when most of its line breaks are CRLF, otherwise LF. */
+export function detectLineEnding(text: string): "\r\n" | "\n" {
+  const crlf = (text.match(/\r\n/g) || []).length;
+  const lf = (text.match(/\n/g) || []).length - crlf;
+  return crlf > lf ? "\r\n" : "\n";
+}
+
+type Op = { type: DiffLine["type"]; content: string; oldLine: number; newLine: number };
+
+function computeOps(oldLines: string[], newLines: string[]): Op[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const ops: Op[] = [];
+
+  for (let i = 0; i < prefix; i++) {
+    ops.push({ type: "context", content: oldLines[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  let oldLine = prefix + 1;
+  let newLine = prefix + 1;
+  const middle: Op["type"][] = [];
+
+  if ((a.length + 1) * (b.length + 1) <= MAX_LCS_CELLS) {
+    // lcs[i][j] = LCS length of a[i..] and b[j..]
+    const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push("context");
+        i++;
+        j++;
+      } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        middle.push("remove");
+        i++;
+      } else {
+        middle.push("add");
+        j++;
+      }
+    }
+  } else {
+    middle.push(...a.map(() => "remove" as const), ...b.map(() => "add" as const));
+  }
+
+  let ai = 0;
+  let bi = 0;
+  for (const type of middle) {
+    if (type === "context") {
+      bi++;
+      ops.push({ type, content: a[ai++], oldLine: oldLine++, newLine: newLine++ });
+    } else if (type === "remove") {
+      ops.push({ type, content: a[ai++], oldLine: oldLine++, newLine });
+    } else {
+      ops.push({ type, content: b[bi++], oldLine, newLine: newLine++ });
+    }
+  }
+
+  for (let k = 0; k < suffix; k++) {
+    ops.push({ type: "context", content: oldLines[oldLine - 1], oldLine: oldLine++, newLine: newLine++ });
+  }
+  return ops;
+}
+
+/** Compute unified-diff style hunks between two texts. */
+export function diffLines(oldText: string, newText: string, context = DEFAULT_CONTEXT_LINES): DiffHunk[] {
+  const ops = computeOps(splitLines(oldText), splitLines(newText));
+  const hunks: DiffHunk[] = [];
+  let current: { hunk: DiffHunk; lastChange: number } | null = null;
+
+  for (let idx = 0; idx < ops.length; idx++) {
+    const op = ops[idx];
+    if (op.type === "context") continue;
+
+    if (current && idx - current.lastChange <= context * 2) {
+      // Close enough to the previous change: extend the hunk through the gap
+      for (let k = current.lastChange + 1; k < idx; k++) current.hunk.lines.push(toLine(ops[k]));
+    } else {
+      if (current) closeHunk(current, ops, context);
+      const start = Math.max(0, idx - context);
+      current = {
+        hunk: { oldStart: ops[start].oldLine, newStart: ops[start].newLine, lines: [] },
+        lastChange: idx,
+      };
+      for (let k = start; k < idx; k++) current.hunk.lines.push(toLine(ops[k]));
+      hunks.push(current.hunk);
+    }
+    current.hunk.lines.push(toLine(op));
+    current.lastChange = idx;
+  }
+  if (current) closeHunk(current, ops, context);
+  return hunks;
+}
+
+function toLine(op: Op): DiffLine {
+  return { type: op.type, content: op.content, lineNumber: op.type === "add" ? op.newLine : op.oldLine };
+}
+
+function closeHunk(current: { hunk: DiffHunk; lastChange: number }, ops: Op[], context: number) {
+  const end = Math.min(ops.length, current.lastChange + 1 + context);
+  for (let k = current.lastChange + 1; k < end; k++) current.hunk.lines.push(toLine(ops[k]));
+}
+
+/**
+ * Parse a unified diff for a single file. `---`/`+++` headers are optional;
+ * hunk line counts in `@@` headers are ignored in favour of the body.
+ */
+export function parseUnifiedDiff(patch: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+
+  for (const raw of patch.split(/\r?\n/)) {
+    const header = raw.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (header) {
+      current = { oldStart: Number(header[1]), newStart: Number(header[2]), lines: [] };
+      hunks.push(current);
+      continue;
+    }
+    if (!current) continue; // preamble (diff --git, ---, +++, index ...)
+    if (raw.startsWith("\\")) continue; // "\ No newline at end of file"
+    if (raw.startsWith("+")) current.lines.push({ type: "add", content: raw.slice(1) });
+    else if (raw.startsWith("-")) current.lines.push({ type: "remove", content: raw.slice(1) });
+    else if (raw.startsWith(" ")) current.lines.push({ type: "context", content: raw.slice(1) });
+    else if (raw === "") current.lines.push({ type: "context", content: "" });
+    else throw new Error(`Malformed patch line: "${raw.slice(0, 80)}"`);
+  }
+
+  // A trailing blank line from the final newline is not part of the last hunk
+  const last = hunks[hunks.length - 1];
+  if (last && last.lines.length && last.lines[last.lines.length - 1].content === "" && last.lines[last.lines.length - 1].type === "context" && patch.endsWith("\n")) {
+    last.lines.pop();
+  }
+
+  if (hunks.length === 0) throw new Error("Patch contains no @@ hunks.");
+  return hunks;
+}
+
+function matchesAt(lines: string[], expected: string[], at: number): boolean {
+  if (at < 0 || at + expected.length > lines.length) return false;
+  for (let i = 0; i < expected.length; i++) {
+    if (lines[at + i] !== expected[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Apply hunks to `text`. Each hunk is located at its stated line first, then
+ * at the nearest position where its context and removed lines match exactly.
+ * The result keeps the file's line ending (CRLF or LF).
+ */
+export function applyHunks(text: string, hunks: DiffHunk[]): string {
+  const lines = splitLines(text);
+  const trailingNewline = text === "" || /\n$/.test(text);
+  const eol = detectLineEnding(text);
+  let offset = 0;
+  let searchFrom = 0;
+
+  hunks.forEach((hunk, index) => {
+    const before = hunk.lines.filter((l) => l.type !== "add").map((l) => l.content);
+    const after = hunk.lines.filter((l) => l.type !== "remove").map((l) => l.content);
+    const expectedAt = Math.max(0, hunk.oldStart - 1 + offset);
+
+    let at = -1;
+    if (matchesAt(lines, before, expectedAt)) {
+      at = expectedAt;
+    } else {
+      for (let distance = 1; at === -1 && distance <= lines.length; distance++) {
+        if (expectedAt - distance >= searchFrom && matchesAt(lines, before, expectedAt - distance)) at = expectedAt - distance;
+        else if (matchesAt(lines, before, expectedAt + distance)) at = expectedAt + distance;
+      }
+    }
+    if (at === -1 || at < searchFrom) {
+      throw new Error(`Patch hunk ${index + 1} (@@ -${hunk.oldStart} +${hunk.newStart} @@) does not apply to the current file.`);
+    }
+
+    lines.splice(at, before.length, ...after);
+    offset += after.length - before.length;
+    searchFrom = at + after.length;
+  });
+
+  if (lines.length === 0) return "";
+  return lines.join(eol) + (trailingNewline ? eol : "");
+}
@@ -0,0 +1,76 @@
+/**
+ * Event Stream Hub
+ *
+ * In-process pub/sub between server-side producers (the agent loop, later
+ * terminal runs) and SSE subscribers connected to /api/stream. Streams are
+ * keyed by a client-chosen id so a browser tab only sees its own events.
+ */
+
+export interface UIComponentEvent {
+  type: string;
+  props: Record<string, any>;
+}
+
+export type StreamEvent =
+  | { type: "connected"; streamId: string }
+  | { type: "text_delta"; turnId: string; text: string }
+  | { type: "tool_call_start"; turnId: string; id: string; name: string; args: Record<string, any> }
+  | { type: "tool_call_end"; turnId: string; id: string; name: string; ok: boolean; error?: string }
+  | { type: "component"; turnId: string; component: UIComponentEvent }
+  | { type: "done"; turnId: string }
+  | { type: "error"; turnId: string; message: string }
+  | { type: "terminal_start"; runId: string; command: string }
+  | { type: "terminal_output"; runId: string; stream: "stdout" | "stderr"; line: string }
+  | { type: "terminal_exit"; runId: string; status: "success" | "error"; exitCode: number | null; error?: string };
+
+type WithoutTurnId<E> = E extends { turnId: string } ? Omit<E, "turnId"> : never;
+
+/** A turn-scoped event before the producer stamps it with its `turnId`. */
+export type TurnEvent = WithoutTurnId<StreamEvent>;
+
+const encoder = new TextEncoder();
+const subscribers = new Map<string, Set<ReadableStreamDefaultController<Uint8Array>>>();
+
+function encode(event: StreamEvent): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+export function subscribe(streamId: string, controller: ReadableStreamDefaultController<Uint8Array>) {
+  let set = subscribers.get(streamId);
+  if (!set) {
+    set = new Set();
+    subscribers.set(streamId, set);
+  }
+  set.add(controller);
+  controller.enqueue(encode({ type: "connected", streamId }));
+}
+
+export function unsubscribe(streamId: string, controller: ReadableStreamDefaultController<Uint8Array>) {
+  const set = subscribers.get(streamId);
+  if (!set) return;
+  set.delete(controller);
+  if (set.size === 0) subscribers.delete(streamId);
+}
+
+/**
+ * Push an event to every subscriber of `streamId`. Publishing to a stream with
+ * no subscribers is a no-op, so producers never need to check first.
+ */
+export function publish(streamId: string, event: StreamEvent) {
+  const set = subscribers.get(streamId);
+  if (!set) return;
+  const chunk = encode(event);
+  for (const controller of Array.from(set)) {
+    try {
+      controller.enqueue(chunk);
+    } catch {
+      // Controller already closed (client went away without cancel)
+      unsubscribe(streamId, controller);
+    }
+  }
+}
+
+/** SSE comment line used as a keep-alive so idle proxies don't drop the connection. */
+export function heartbeat(controller: ReadableStreamDefaultController<Uint8Array>) {
+  controller.enqueue(encoder.encode(": ping\n\n"));
+}
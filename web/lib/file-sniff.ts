@@ -0,0 +1,256 @@
+/**
+ * File Sniffing
+ *
+ * Tells text from binary by looking at a file's first bytes (NUL bytes,
+ * invalid UTF-8, control characters) and names common binary formats by
+ * their magic numbers, including the dimensions of images. Large text files
+ * are read in pieces — head, tail or a streamed line range — so `read_file`
+ * never has to load a multi-gigabyte log into memory.
+ */
+
+import { createReadStream } from "fs";
+import { open } from "fs/promises";
+import { createInterface } from "readline";
+
+export interface SniffResult {
+  kind: "text" | "image" | "binary";
+  size: number;
+  mimeType?: string;
+  /** Human-readable format, e.g. "PNG image" or "SQLite database". */
+  description?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface StreamedLines {
+  text: string;
+  startLine: number;
+  endLine: number;
+  /** The page stopped at `maxChars` before the requested range ended. */
+  truncated: boolean;
+  /** Lines exist after `endLine`. */
+  more: boolean;
+  /** Known only when the stream reached the end of the file. */
+  totalLines?: number;
+}
+
+const SNIFF_BYTES = 8_192;
+/** Share of control characters above which undecodable-looking text counts as binary. */
+const MAX_CONTROL_RATIO = 0.1;
+
+interface Signature {
+  bytes: (number | null)[];
+  mimeType: string;
+  description: string;
+  image?: boolean;
+}
+
+// `null` matches any byte
+const SIGNATURES: Signature[] = [
+  { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], mimeType: "image/png", description: "PNG image", image: true },
+  { bytes: [0xff, 0xd8, 0xff], mimeType: "image/jpeg", description: "JPEG image", image: true },
+  { bytes: [0x47, 0x49, 0x46, 0x38], mimeType: "image/gif", description: "GIF image", image: true },
+  {
+    bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50],
+    mimeType: "image/webp",
+    description: "WebP image",
+    image: true,
+  },
+  { bytes: [0x42, 0x4d], mimeType: "image/bmp", description: "BMP image", image: true },
+  { bytes: [0x00, 0x00, 0x01, 0x00], mimeType: "image/x-icon", description: "ICO image", image: true },
+  { bytes: [0x25, 0x50, 0x44, 0x46], mimeType: "application/pdf", description: "PDF document" },
+  { bytes: [0x50, 0x4b, 0x03, 0x04], mimeType: "application/zip", description: "ZIP archive" },
+  { bytes: [0x1f, 0x8b], mimeType: "application/gzip", description: "gzip archive" },
+  { bytes: Array.from(Buffer.from("SQLite format 3\0")), mimeType: "application/vnd.sqlite3", description: "SQLite database" },
+  { bytes: [0x7f, 0x45, 0x4c, 0x46], mimeType: "application/x-elf", description: "ELF executable" },
+  { bytes: [0x00, 0x61, 0x73, 0x6d], mimeType: "application/wasm", description: "WebAssembly module" },
+  { bytes: [0x4d, 0x5a], mimeType: "application/vnd.microsoft.portable-executable", description: "Windows executable" },
+];
+
+function matchSignature(head: Buffer): Signature | undefined {
+  return SIGNATURES.find(
+    ({ bytes }) => head.length >= bytes.length && bytes.every((byte, i) => byte === null || head[i] === byte)
+  );
+}
+
+function looksBinary(head: Buffer): boolean {
+  if (head.includes(0)) return true;
+  try {
+    // `stream` tolerates a multi-byte character cut off at the end of the sample
+    new TextDecoder("utf-8", { fatal: true }).decode(head, { stream: true });
+  } catch {
+    return true;
+  }
+  let control = 0;
+  for (let i = 0; i < head.length; i++) {
+    // Tab, newline, form feed, carriage return and escape (ANSI colours in logs) are normal in text
+    if (head[i] < 0x20 && ![0x09, 0x0a, 0x0c, 0x0d, 0x1b].includes(head[i])) control++;
+  }
+  return head.length > 0 && control / head.length > MAX_CONTROL_RATIO;
+}
+
+function jpegDimensions(head: Buffer): { width: number; height: number } | undefined {
+  let offset = 2;
+  while (offset + 9 < head.length) {
+    if (head[offset] !== 0xff) return undefined;
+    const marker = head[offset + 1];
+    // SOF0-SOF15 carry the frame size; C4 (DHT), C8 (JPG) and CC (DAC) share the range but don't
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { height: head.readUInt16BE(offset + 5), width: head.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + head.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+/** Width and height from the header; undefined when they aren't within the sniffed bytes. */
+function imageDimensions(head: Buffer, mimeType: string): { width: number; height: number } | undefined {
+  try {
+    switch (mimeType) {
+      case "image/png":
+        return { width: head.readUInt32BE(16), height: head.readUInt32BE(20) };
+      case "image/gif":
+        return { width: head.readUInt16LE(6), height: head.readUInt16LE(8) };
+      case "image/bmp":
+        return { width: head.readInt32LE(18), height: Math.abs(head.readInt32LE(22)) };
+      case "image/jpeg":
+        return jpegDimensions(head);
+      case "image/webp": {
+        const chunk = head.toString("ascii", 12, 16);
+        if (chunk === "VP8X") return { width: head.readUIntLE(24, 3) + 1, height: head.readUIntLE(27, 3) + 1 };
+        if (chunk === "VP8 ") return { width: head.readUInt16LE(26) & 0x3fff, height: head.readUInt16LE(28) & 0x3fff };
+        if (chunk === "VP8L") {
+          const bits = head.readUInt32LE(21);
+          return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+        }
+        return undefined;
+      }
+      default:
+        return undefined;
+    }
+  } catch {
+    return undefined; // Header shorter than the format promises
+  }
+}
+
+async function readBytes(path: string, position: number, length: number): Promise<Buffer> {
+  const handle = await open(path, "r");
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, position);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/** Classify a file from its size and first bytes. */
+export async function sniffFile(path: string): Promise<SniffResult> {
+  const handle = await open(path, "r");
+  let size: number;
+  let head: Buffer;
+  try {
+    size = (await handle.stat()).size;
+    const buffer = Buffer.alloc(Math.min(SNIFF_BYTES, size));
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    head = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  if (!looksBinary(head)) return { kind: "text", size };
+  const signature = matchSignature(head);
+  if (!signature) return { kind: "binary", size, description: "binary data" };
+  return {
+    kind: signature.image ? "image" : "binary",
+    size,
+    mimeType: signature.mimeType,
+    description: signature.description,
+    ...(signature.image ? imageDimensions(head, signature.mimeType) : {}),
+  };
+}
+
+/** Classic `hexdump -C` layout: offset, 16 hex bytes, printable ASCII. */
+export function hexDump(bytes: Buffer): string {
+  const rows: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const row = bytes.subarray(offset, offset + 16);
+    const hex = Array.from(row, (byte) => byte.toString(16).padStart(2, "0"));
+    const left = hex.slice(0, 8).join(" ");
+    const right = hex.slice(8).join(" ");
+    const ascii = Array.from(row, (byte) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : ".")).join("");
+    rows.push(`${offset.toString(16).padStart(8, "0")}  ${left.padEnd(23)}  ${right.padEnd(23)}  |${ascii}|`);
+  }
+  return rows.join("\n");
+}
+
+export async function readHexPreview(path: string, bytes: number): Promise<string> {
+  return hexDump(await readBytes(path, 0, bytes));
+}
+
+/**
+ * The first and last `maxChars / 2` bytes of a large text file, cut at line
+ * boundaries. `headLines` is the number of complete lines in `head`.
+ */
+export async function readTextHeadTail(
+  path: string,
+  size: number,
+  maxChars: number
+): Promise<{ head: string; headLines: number; tail: string }> {
+  const half = Math.floor(maxChars / 2);
+  const headBytes = await readBytes(path, 0, half);
+  const tailBytes = await readBytes(path, Math.max(0, size - half), half);
+  const headEnd = headBytes.lastIndexOf(0x0a);
+  const head = headBytes.subarray(0, headEnd === -1 ? headBytes.length : headEnd).toString("utf-8");
+  const tailStart = tailBytes.indexOf(0x0a);
+  const tail = tailBytes.subarray(tailStart === -1 ? 0 : tailStart + 1).toString("utf-8").replace(/\r?\n$/, "");
+  return { head, headLines: head.split("\n").length, tail };
+}
+
+/**
+ * Stream lines `startLine`..`endLine` (1-based, inclusive) of a text file,
+ * stopping once `maxChars` are collected. Only the lines up to the end of the
+ * page are read; a single over-long line is cut rather than skipped.
+ */
+export async function readTextLines(
+  path: string,
+  startLine: number,
+  endLine: number | undefined,
+  maxChars: number
+): Promise<StreamedLines> {
+  if (endLine !== undefined && endLine < startLine) {
+    throw new Error(`end_line ${endLine} is before start_line ${startLine}.`);
+  }
+  const stream = createReadStream(path, { encoding: "utf-8" });
+  const lines = createInterface({ input: stream, crlfDelay: Infinity });
+  const page: string[] = [];
+  let chars = 0;
+  let lineNumber = 0;
+  let end = startLine - 1;
+  let truncated = false;
+  let more = false;
+  try {
+    for await (const line of lines) {
+      lineNumber++;
+      if (lineNumber < startLine) continue;
+      if (endLine !== undefined && lineNumber > endLine) {
+        more = true;
+        break;
+      }
+      if (page.length > 0 && chars + line.length + 1 > maxChars) {
+        truncated = more = true;
+        break;
+      }
+      page.push(line.length > maxChars ? line.slice(0, maxChars) : line);
+      chars += line.length + 1;
+      end = lineNumber;
+    }
+  } finally {
+    lines.close();
+    stream.destroy();
+  }
+  if (startLine > Math.max(lineNumber, 1)) {
+    throw new Error(`start_line ${startLine} is past the end of the file (${lineNumber} lines).`);
+  }
+  return { text: page.join("\n"), startLine, endLine: end, truncated, more, ...(more ? {} : { totalLines: lineNumber }) };
+}
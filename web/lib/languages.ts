@@ -0,0 +1,16 @@
+/**
+ * Editor Languages
+ *
+ * Monaco language ids by file extension, shared by every route that sends a
+ * file to the CodePanel.
+ */
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: "typescript", tsx: "typescript", js: "javascript", jsx: "javascript",
+  py: "python", json: "json", md: "markdown", css: "css", html: "html",
+};
+
+export function languageForPath(path: string): string {
+  const ext = path.split(".").pop()?.toLowerCase() || "";
+  return LANGUAGE_BY_EXTENSION[ext] || "plaintext";
+}
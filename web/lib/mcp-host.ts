@@ -75,14 +75,18 @@ export async function workspaceRead(path: string) {
   return callMcpTool("workspace_read", { path });
 }
 
-export async function requestApproval(action: string, reason: string, command: string) {
-  return callMcpTool("approval_request", { action, reason, command });
+export async function requestApproval(action: string, reason: string, command: string, cwd?: string) {
+  return callMcpTool("approval_request", { action, reason, command, cwd });
 }
 
 export async function grantApproval(requestId: string) {
   return callMcpTool("approval_grant", { request_id: requestId });
 }
 
+export async function denyApproval(requestId: string, reason?: string) {
+  return callMcpTool("approval_deny", { request_id: requestId, reason });
+}
+
 export async function runTerminal(command: string, approvalToken: string, cwd?: string) {
   return callMcpTool("terminal_run", { command, approval_token: approvalToken, cwd });
 }
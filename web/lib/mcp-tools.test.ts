@@ -0,0 +1,137 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync, unlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+// The workspace root is fixed when lib/workspace loads, so point it at a scratch directory first
+const workspace = mkdtempSync(join(tmpdir(), "vibe-approvals-"));
+process.env.WORKSPACE_ROOT = workspace;
+const outside = mkdtempSync(join(tmpdir(), "vibe-outside-"));
+
+let tools: typeof import("./mcp-tools");
+
+beforeAll(async () => {
+  tools = await import("./mcp-tools");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+afterAll(() => {
+  rmSync(workspace, { recursive: true, force: true });
+  rmSync(outside, { recursive: true, force: true });
+});
+
+async function approve(command: string, cwd?: string): Promise<string> {
+  const request = await tools.requestApproval("terminal_run", "test", command, cwd);
+  expect(request.status).toBe("pending");
+  const { approval_token } = await tools.grantApproval(request.request_id, "tester");
+  return approval_token;
+}
+
+describe("approval tokens", () => {
+  it("run the approved command once", async () => {
+    const token = await approve("echo approved");
+    const result = await tools.runTerminal("echo approved", token);
+    expect(result.output.trim()).toBe("approved");
+    expect(result.exitCode).toBe(0);
+  });
+
+  it("reject a command other than the one approved", async () => {
+    const token = await approve("echo approved");
+    await expect(tools.runTerminal("echo something-else", token)).rejects.toThrow(
+      /does not match the approved action, command or cwd/
+    );
+  });
+
+  it("reject a working directory other than the one approved", async () => {
+    const subdirectory = join(workspace, "sub");
+    mkdirSync(subdirectory, { recursive: true });
+    const token = await approve("echo approved");
+    await expect(tools.runTerminal("echo approved", token, subdirectory)).rejects.toThrow(
+      /does not match the approved action, command or cwd/
+    );
+  });
+
+  it("reject a replayed token", async () => {
+    const token = await approve("echo once");
+    await tools.runTerminal("echo once", token);
+    await expect(tools.runTerminal("echo once", token)).rejects.toThrow(/Invalid approval token/);
+  });
+
+  it("stay consumed after a mismatched attempt", async () => {
+    const token = await approve("echo approved");
+    await expect(tools.runTerminal("echo other", token)).rejects.toThrow(/PERMISSION DENIED/);
+    await expect(tools.runTerminal("echo approved", token)).rejects.toThrow(/Invalid approval token/);
+  });
+
+  it("reject an expired token", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const token = await approve("echo late");
+    vi.setSystemTime(Date.now() + 61 * 1000);
+    await expect(tools.runTerminal("echo late", token)).rejects.toThrow(/Approval token expired/);
+  });
+
+  it("reject an unknown token", async () => {
+    await expect(tools.runTerminal("echo approved", "tok_forged")).rejects.toThrow(/Invalid approval token/);
+  });
+});
+
+describe("runTerminal", () => {
+  it("keep a character whose bytes arrive in separate chunks", async () => {
+    const command = "printf '\\303'; sleep 0.2; printf '\\251\\n'";
+    const lines: string[] = [];
+    const result = await tools.runTerminal(command, await approve(command), undefined, { onLine: (_, line) => lines.push(line) });
+    expect(result.output).toBe("é\n");
+    expect(lines).toEqual(["é"]);
+  });
+
+  it("stop the processes a timed-out command started", async () => {
+    const command = "(sleep 30; echo late) & sleep 30";
+    const result = await tools.runTerminal(command, await approve(command), undefined, { timeoutMs: 300 });
+    expect(result.timedOut).toBe(true);
+    expect(result.output).toBe("");
+    expect(result.durationMs).toBeLessThan(3_000);
+  });
+});
+
+describe("applyFileWrite", () => {
+  async function proposeAndGrant(path: string, content: string) {
+    const request = await tools.proposeFileWrite(path, content, "test");
+    expect(request.status).toBe("pending");
+    const { approval_token } = await tools.grantApproval(request.request_id, "tester");
+    return { requestId: request.request_id, token: approval_token };
+  }
+
+  it("write the approved content", async () => {
+    const target = join(workspace, "approved.txt");
+    const { requestId, token } = await proposeAndGrant(target, "approved\n");
+    const result = await tools.applyFileWrite(requestId, token);
+    expect(result.created).toBe(true);
+    expect(readFileSync(target, "utf-8")).toBe("approved\n");
+  });
+
+  it("refuse a target swapped for a symlink out of the workspace after the proposal", async () => {
+    const target = join(workspace, "config.txt");
+    const escaped = join(outside, "config.txt");
+    writeFileSync(target, "original\n");
+    writeFileSync(escaped, "original\n");
+    const { requestId, token } = await proposeAndGrant(target, "changed\n");
+
+    unlinkSync(target);
+    symlinkSync(escaped, target);
+    await expect(tools.applyFileWrite(requestId, token)).rejects.toThrow(/PERMISSION DENIED.*outside the workspace/);
+    expect(readFileSync(escaped, "utf-8")).toBe("original\n");
+  });
+
+  it("refuse a new file whose directory became a symlink out of the workspace", async () => {
+    mkdirSync(join(workspace, "notes"));
+    const { requestId, token } = await proposeAndGrant(join(workspace, "notes", "todo.txt"), "todo\n");
+
+    rmSync(join(workspace, "notes"), { recursive: true });
+    symlinkSync(outside, join(workspace, "notes"));
+    await expect(tools.applyFileWrite(requestId, token)).rejects.toThrow(/outside the workspace/);
+    expect(existsSync(join(outside, "todo.txt"))).toBe(false);
+  });
+});
@@ -5,16 +5,59 @@
  * This is simpler for the hackathon and works reliably in Next.js.
  */
 
-import { execSync } from "child_process";
-import { readFileSync, readdirSync, statSync, existsSync } from "fs";
-import { join } from "path";
+import { execSync, spawn } from "child_process";
+import { closeSync, constants, openSync, readFileSync, existsSync, writeFileSync } from "fs";
+import { readdir, stat } from "fs/promises";
+import { basename, dirname, join } from "path";
 import crypto from "crypto";
+import { StringDecoder } from "string_decoder";
+import { WORKSPACE_ROOT_REAL, assertWithinWorkspace, resolveWorkspaceWritePath, toWorkspaceRelativePath } from "./workspace";
+import { descendIgnoreContext, ignoreContextFor, isIgnored, type IgnoreContext } from "./workspace-ignore";
+import { appendAudit, digestOutput } from "./audit-log";
+import { evaluatePolicy, type PolicyEffect } from "./policy";
+import { readHexPreview, readTextHeadTail, readTextLines, sniffFile, type SniffResult, type StreamedLines } from "./file-sniff";
 
 // ============================================
 // APPROVAL TOKEN MANAGEMENT
 // ============================================
-const pendingApprovals = new Map<string, { action: string; reason: string; command: string; timestamp: number }>();
-const activeTokens = new Map<string, { requestId: string; command: string; expires: number }>();
+const pendingApprovals = new Map<string, { action: string; reason: string; command: string; cwd?: string; timestamp: number }>();
+const activeTokens = new Map<string, { requestId: string; fingerprint: string; decidedBy: string; expires: number }>();
+// Staged file contents for pending file_write approvals, keyed by request id
+const stagedWrites = new Map<string, { path: string; content: string; baseHash: string | null }>();
+
+export interface DeniedApproval {
+  requestId: string;
+  action: string;
+  command: string;
+  reason?: string;
+  deniedAt: number;
+}
+
+// Denials wait here until the next agent turn reports them to the model
+const deniedApprovals = new Map<string, DeniedApproval>();
+
+/** What happened when an approved request was carried out. */
+export type ApprovalOutcome =
+  | {
+      requestId: string;
+      action: "terminal_run";
+      exitCode: number | null;
+      timedOut: boolean;
+      /** Tail of the combined output. */
+      output: string;
+      error?: string;
+    }
+  | { requestId: string; action: "file_write"; written: boolean; path: string; error?: string };
+
+// Outcomes of approved requests wait here until the next agent turn reports them to the model
+const approvalOutcomes = new Map<string, ApprovalOutcome>();
+const MAX_OUTCOME_OUTPUT_CHARS = 4000;
+
+function recordApprovalOutcome(outcome: ApprovalOutcome) {
+  approvalOutcomes.set(outcome.requestId, outcome);
+  // Forget outcomes nobody asked about within 30 minutes
+  setTimeout(() => approvalOutcomes.delete(outcome.requestId), 30 * 60 * 1000);
+}
 
 function generateRequestId(): string {
   return `req_${crypto.randomBytes(8).toString("hex")}`;
@@ -24,89 +67,317 @@ function generateToken(): string {
   return `tok_${crypto.randomBytes(16).toString("hex")}`;
 }
 
+/**
+ * Hash of exactly what the user approved. A token is only valid for the
+ * action, command and working directory it was granted for.
+ */
+function approvalFingerprint(action: string, command: string, cwd?: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify([action, command, cwd || ""]))
+    .digest("hex");
+}
+
+/**
+ * Validate and consume a one-time approval token for the given operation.
+ * Throws a PERMISSION DENIED error when the token is unknown, expired, or was
+ * granted for a different action/command/cwd.
+ */
+function consumeApprovalToken(token: string, action: string, command: string, cwd?: string) {
+  const tokenData = activeTokens.get(token);
+  if (!tokenData) {
+    throw new Error("⛔ PERMISSION DENIED: Invalid approval token");
+  }
+  // One-time use, even if the checks below fail
+  activeTokens.delete(token);
+  if (Date.now() > tokenData.expires) {
+    throw new Error("⛔ PERMISSION DENIED: Approval token expired");
+  }
+  const expected = Buffer.from(tokenData.fingerprint, "hex");
+  const actual = Buffer.from(approvalFingerprint(action, command, cwd), "hex");
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    throw new Error("⛔ PERMISSION DENIED: Approval token does not match the approved action, command or cwd");
+  }
+  return tokenData;
+}
+
 // ============================================
 // FILESYSTEM HELPERS
 // ============================================
-type FileNode = {
+export type FileNode = {
   name: string;
   type: "file" | "directory";
   size?: number;
+  /** Entries in a directory after ignore rules, whether or not they are listed. */
+  childCount?: number;
   children?: FileNode[];
+  /** Only some of the directory's children are listed. */
+  truncated?: boolean;
 };
 
-function buildDirectoryTree(dirPath: string, depth = 2, currentDepth = 0): FileNode[] {
-  if (currentDepth >= depth) return [];
-  
-  const entries: FileNode[] = [];
-  try {
-    const items = readdirSync(dirPath);
-    for (const item of items) {
-      if (item.startsWith(".") || item === "node_modules") continue;
-      
-      const fullPath = join(dirPath, item);
-      const stat = statSync(fullPath);
-      
-      if (stat.isDirectory()) {
-        entries.push({
-          name: item,
-          type: "directory",
-          children: buildDirectoryTree(fullPath, depth, currentDepth + 1),
-        });
-      } else {
-        entries.push({
-          name: item,
-          type: "file",
-          size: stat.size,
-        });
-      }
+export interface WorkspaceListing {
+  tree: FileNode[];
+  /** Top-level entries in the listed directory. */
+  total: number;
+  offset: number;
+  /** Offset of the next page when more top-level entries remain. */
+  nextOffset?: number;
+}
+
+const DEFAULT_LIST_PAGE_SIZE = 200;
+const MAX_CHILDREN_PER_DIRECTORY = 50;
+const MAX_LISTED_NODES = 1_000;
+
+interface ListedEntry {
+  name: string;
+  absolutePath: string;
+  relativePath: string;
+  /** A real directory; symlinked directories are reported but never walked. */
+  isDirectory: boolean;
+}
+
+async function readListedEntries(dirPath: string, ignore: IgnoreContext): Promise<ListedEntry[]> {
+  const dirents = await readdir(dirPath, { withFileTypes: true });
+  return dirents
+    .map((dirent) => {
+      const absolutePath = join(dirPath, dirent.name);
+      return {
+        name: dirent.name,
+        absolutePath,
+        relativePath: toWorkspaceRelativePath(absolutePath).split("\\").join("/"),
+        isDirectory: dirent.isDirectory(),
+      };
+    })
+    .filter((entry) => !isIgnored(ignore, entry.relativePath, entry.isDirectory))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Directories at the depth limit still report `childCount`. Each directory
+ * lists at most MAX_CHILDREN_PER_DIRECTORY children, and the whole listing at
+ * most MAX_LISTED_NODES; siblings are reserved before anything is expanded,
+ * so a deep first subtree can't starve the rest.
+ */
+async function buildDirectoryTree(
+  entries: ListedEntry[],
+  ignore: IgnoreContext,
+  depth: number,
+  currentDepth: number,
+  budget: { remaining: number }
+): Promise<FileNode[]> {
+  const nodes: FileNode[] = [];
+  for (const entry of entries) {
+    let info;
+    try {
+      info = await stat(entry.absolutePath);
+    } catch {
+      continue; // Broken symlink or removed mid-walk
     }
-  } catch (err) {
-    // Permission denied
+    if (!info.isDirectory()) {
+      nodes.push({ name: entry.name, type: "file", size: info.size });
+      continue;
+    }
+    const node: FileNode = { name: entry.name, type: "directory" };
+    nodes.push(node);
+    if (!entry.isDirectory) continue;
+
+    const childIgnore = await descendIgnoreContext(ignore, entry.absolutePath, entry.relativePath);
+    let children: ListedEntry[];
+    try {
+      children = await readListedEntries(entry.absolutePath, childIgnore);
+    } catch {
+      continue; // Permission denied
+    }
+    node.childCount = children.length;
+    if (currentDepth + 1 >= depth || children.length === 0) continue;
+
+    const listed = children.slice(0, Math.max(0, Math.min(MAX_CHILDREN_PER_DIRECTORY, budget.remaining)));
+    budget.remaining -= listed.length;
+    node.children = await buildDirectoryTree(listed, childIgnore, depth, currentDepth + 1, budget);
+    if (listed.length < children.length) node.truncated = true;
   }
-  return entries;
+  return nodes;
 }
 
 // ============================================
 // EXPORTED TOOLS
 // ============================================
-export async function workspaceList(path: string, depth = 2): Promise<FileNode[]> {
-  return buildDirectoryTree(path, depth);
+export async function workspaceList(
+  path: string,
+  depth = 2,
+  { offset = 0, limit = DEFAULT_LIST_PAGE_SIZE }: { offset?: number; limit?: number } = {}
+): Promise<WorkspaceListing> {
+  const ignore = await ignoreContextFor(toWorkspaceRelativePath(path));
+  let entries: ListedEntry[] = [];
+  try {
+    entries = await readListedEntries(path, ignore);
+  } catch {
+    // Permission denied
+  }
+  const page = entries.slice(offset, offset + limit);
+  const budget = { remaining: MAX_LISTED_NODES - page.length };
+  const tree = await buildDirectoryTree(page, ignore, depth, 0, budget);
+  const end = offset + page.length;
+  return { tree, total: entries.length, offset, ...(end < entries.length ? { nextOffset: end } : {}) };
 }
 
+/** Text files above this size are read in pieces instead of whole. */
+export const LARGE_TEXT_BYTES = 2_000_000;
+const HEX_PREVIEW_BYTES = 256;
+
+export type WorkspaceFile =
+  | { kind: "text"; size: number; content: string }
+  | { kind: "large_text"; size: number; head: string; headLines: number; tail: string }
+  | { kind: "large_text"; size: number; lines: StreamedLines }
+  | (SniffResult & { kind: "image" })
+  | (SniffResult & { kind: "binary"; hexPreview: string });
+
+/** Whole text of a file; binary files and text over LARGE_TEXT_BYTES are refused. */
 export async function workspaceRead(path: string): Promise<string> {
   if (!existsSync(path)) {
     throw new Error(`File not found: ${path}`);
   }
+  const sniffed = await sniffFile(path);
+  if (sniffed.kind !== "text") {
+    throw new Error(`${basename(path)} is a ${sniffed.description || "binary file"} and can't be read as text`);
+  }
+  if (sniffed.size > LARGE_TEXT_BYTES) {
+    throw new Error(`${basename(path)} is too large to load whole (${sniffed.size} bytes)`);
+  }
   return readFileSync(path, "utf-8");
 }
 
-export async function requestApproval(action: string, reason: string, command: string): Promise<{ status: string; request_id: string }> {
+/**
+ * Read a file by what it contains: text whole, large text as head and tail
+ * (or a streamed line range when `startLine` is given), images as metadata
+ * for a preview, and other binaries as metadata plus a hex preview.
+ */
+export async function workspaceReadFile(
+  path: string,
+  { startLine, endLine, maxChars }: { startLine?: number; endLine?: number; maxChars: number }
+): Promise<WorkspaceFile> {
+  if (!existsSync(path)) {
+    throw new Error(`File not found: ${path}`);
+  }
+  const sniffed = await sniffFile(path);
+  if (sniffed.kind === "image") return { ...sniffed, kind: "image" };
+  if (sniffed.kind === "binary") {
+    return { ...sniffed, kind: "binary", hexPreview: await readHexPreview(path, HEX_PREVIEW_BYTES) };
+  }
+  if (sniffed.size <= LARGE_TEXT_BYTES) {
+    return { kind: "text", size: sniffed.size, content: readFileSync(path, "utf-8") };
+  }
+  if (startLine !== undefined || endLine !== undefined) {
+    return { kind: "large_text", size: sniffed.size, lines: await readTextLines(path, startLine ?? 1, endLine, maxChars) };
+  }
+  return { kind: "large_text", size: sniffed.size, ...(await readTextHeadTail(path, sniffed.size, maxChars)) };
+}
+
+export interface ApprovalRequestResult {
+  /** `approved` and `denied` were decided by policy without asking the user. */
+  status: "pending" | "approved" | "denied";
+  request_id: string;
+  /** Present when a policy rule auto-approved the request. */
+  approval_token?: string;
+  policy: { rule: string; effect: PolicyEffect; message?: string };
+}
+
+export async function requestApproval(
+  action: string,
+  reason: string,
+  command: string,
+  cwd?: string
+): Promise<ApprovalRequestResult> {
   const requestId = generateRequestId();
+  // Canonical form, so the token fingerprint matches what runTerminal resolves
+  const canonicalCwd = assertWithinWorkspace(cwd || WORKSPACE_ROOT_REAL);
+  const decision = evaluatePolicy(action, command);
+  const policy = { rule: decision.ruleId, effect: decision.effect, message: decision.message };
+  const requestedAt = Date.now();
+
+  await appendAudit({
+    event: "approval_requested",
+    request_id: requestId,
+    action,
+    command,
+    cwd: canonicalCwd,
+    reason,
+    decision: "pending",
+    requested_at: new Date(requestedAt).toISOString(),
+  });
+
+  if (decision.effect === "deny") {
+    await appendAudit({
+      event: "approval_denied",
+      request_id: requestId,
+      action,
+      command,
+      cwd: canonicalCwd,
+      reason,
+      decision: "denied",
+      decision_reason: decision.message,
+      decided_by: `policy:${decision.ruleId}`,
+      requested_at: new Date(requestedAt).toISOString(),
+      decided_at: new Date().toISOString(),
+    });
+    return { status: "denied", request_id: requestId, policy };
+  }
+
   pendingApprovals.set(requestId, {
     action,
     reason,
     command,
-    timestamp: Date.now(),
+    cwd: canonicalCwd,
+    timestamp: requestedAt,
   });
   // Auto-expire after 5 minutes
   setTimeout(() => pendingApprovals.delete(requestId), 5 * 60 * 1000);
-  
+
+  if (decision.effect === "allow") {
+    const { approval_token } = await grantApproval(requestId, `policy:${decision.ruleId}`);
+    return { status: "approved", request_id: requestId, approval_token, policy };
+  }
+
   return {
     status: "pending",
     request_id: requestId,
+    policy,
   };
 }
 
-export async function grantApproval(requestId: string): Promise<{ status: string; approval_token: string }> {
+/**
+ * Resolve a pending request into a one-time token. `decidedBy` is recorded in
+ * the audit log as the person (or policy) that approved it.
+ */
+export async function grantApproval(
+  requestId: string,
+  decidedBy = "unknown",
+  claimedBy?: string
+): Promise<{ status: string; approval_token: string }> {
   const pending = pendingApprovals.get(requestId);
   if (!pending) {
     throw new Error("Invalid or expired approval request");
   }
-  
+
+  await appendAudit({
+    event: "approval_granted",
+    request_id: requestId,
+    action: pending.action,
+    command: pending.command,
+    cwd: pending.cwd,
+    reason: pending.reason,
+    decision: "granted",
+    decided_by: decidedBy,
+    claimed_by: claimedBy,
+    requested_at: new Date(pending.timestamp).toISOString(),
+    decided_at: new Date().toISOString(),
+  });
+
   const token = generateToken();
   activeTokens.set(token, {
     requestId,
-    command: pending.command,
+    fingerprint: approvalFingerprint(pending.action, pending.command, pending.cwd),
+    decidedBy,
     expires: Date.now() + 60 * 1000,
   });
   
@@ -118,33 +389,330 @@ export async function grantApproval(requestId: string): Promise<{ status: string
   };
 }
 
-export async function runTerminal(command: string, approvalToken: string, cwd?: string): Promise<string> {
-  const tokenData = activeTokens.get(approvalToken);
-  if (!tokenData) {
-    throw new Error("⛔ PERMISSION DENIED: Invalid approval token");
+export async function denyApproval(
+  requestId: string,
+  reason?: string,
+  decidedBy = "unknown",
+  claimedBy?: string
+): Promise<{ status: string; request_id: string }> {
+  const pending = pendingApprovals.get(requestId);
+  if (!pending) {
+    throw new Error("Invalid or expired approval request");
   }
-  if (Date.now() > tokenData.expires) {
-    activeTokens.delete(approvalToken);
-    throw new Error("⛔ PERMISSION DENIED: Approval token expired");
+
+  await appendAudit({
+    event: "approval_denied",
+    request_id: requestId,
+    action: pending.action,
+    command: pending.command,
+    cwd: pending.cwd,
+    reason: pending.reason,
+    decision: "denied",
+    decision_reason: reason?.trim() || undefined,
+    decided_by: decidedBy,
+    claimed_by: claimedBy,
+    requested_at: new Date(pending.timestamp).toISOString(),
+    decided_at: new Date().toISOString(),
+  });
+
+  pendingApprovals.delete(requestId);
+  stagedWrites.delete(requestId);
+  deniedApprovals.set(requestId, {
+    requestId,
+    action: pending.action,
+    command: pending.command,
+    reason: reason?.trim() || undefined,
+    deniedAt: Date.now(),
+  });
+  // Forget denials nobody asked about within 30 minutes
+  setTimeout(() => deniedApprovals.delete(requestId), 30 * 60 * 1000);
+
+  return {
+    status: "denied",
+    request_id: requestId,
+  };
+}
+
+/** Return and forget a recorded denial, so it is reported to the model once. */
+export async function takeDenial(requestId: string): Promise<DeniedApproval | undefined> {
+  const denial = deniedApprovals.get(requestId);
+  deniedApprovals.delete(requestId);
+  return denial;
+}
+
+/** Return and forget the outcome of an approved request, so it is reported to the model once. */
+export async function takeApprovalOutcome(requestId: string): Promise<ApprovalOutcome | undefined> {
+  const outcome = approvalOutcomes.get(requestId);
+  approvalOutcomes.delete(requestId);
+  return outcome;
+}
+
+// ============================================
+// TERMINAL EXECUTION
+// ============================================
+const TERMINAL_TIMEOUT_MS = 10 * 60 * 1000;
+// Time a timed-out command gets to exit after SIGTERM before it is killed
+const KILL_GRACE_MS = 5 * 1000;
+// Only the tail is kept for the final result; live lines are streamed in full.
+const MAX_CAPTURED_OUTPUT_CHARS = 1024 * 1024;
+
+export type TerminalStreamName = "stdout" | "stderr";
+
+export interface TerminalRunOptions {
+  /** Called once per complete output line, as soon as it is available. */
+  onLine?: (stream: TerminalStreamName, line: string) => void;
+  timeoutMs?: number;
+}
+
+export interface TerminalRunResult {
+  /** Tail of the combined output (capped); `outputDigest` covers all of it. */
+  output: string;
+  outputDigest: string;
+  outputBytes: number;
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  durationMs: number;
+}
+
+/**
+ * Run a shell command as a child process, reporting output line by line.
+ * Resolves when the process exits; a non-zero exit code is not an error.
+ */
+function spawnCommand(command: string, cwd: string, options: TerminalRunOptions): Promise<TerminalRunResult> {
+  const startedAt = Date.now();
+  return new Promise((resolve, reject) => {
+    // Its own process group, so a timeout stops everything the shell started
+    const child = spawn(command, { cwd, shell: true, env: process.env, detached: true });
+    let output = "";
+    let outputBytes = 0;
+    const hash = crypto.createHash("sha256");
+    let timedOut = false;
+    const partial: Record<TerminalStreamName, string> = { stdout: "", stderr: "" };
+    // One decoder per stream keeps a multi-byte character split across chunks intact
+    const decoders: Record<TerminalStreamName, StringDecoder> = { stdout: new StringDecoder("utf8"), stderr: new StringDecoder("utf8") };
+
+    const capture = (text: string) => {
+      output += text;
+      if (output.length > MAX_CAPTURED_OUTPUT_CHARS) {
+        output = output.slice(output.length - MAX_CAPTURED_OUTPUT_CHARS);
+      }
+    };
+
+    const handleText = (stream: TerminalStreamName, text: string) => {
+      capture(text);
+      const lines = (partial[stream] + text).split(/\r?\n/);
+      partial[stream] = lines.pop() ?? "";
+      for (const line of lines) options.onLine?.(stream, line);
+    };
+
+    const handleChunk = (stream: TerminalStreamName) => (data: Buffer) => {
+      hash.update(data);
+      outputBytes += data.length;
+      handleText(stream, decoders[stream].write(data));
+    };
+
+    child.stdout?.on("data", handleChunk("stdout"));
+    child.stderr?.on("data", handleChunk("stderr"));
+
+    const killGroup = (signal: NodeJS.Signals) => {
+      try {
+        if (child.pid) process.kill(-child.pid, signal);
+      } catch {
+        // Already exited
+      }
+    };
+    let forceKill: NodeJS.Timeout | undefined;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup("SIGTERM");
+      forceKill = setTimeout(() => killGroup("SIGKILL"), KILL_GRACE_MS);
+    }, options.timeoutMs ?? TERMINAL_TIMEOUT_MS);
+
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      clearTimeout(forceKill);
+      reject(err);
+    });
+
+    child.on("close", (code, signal) => {
+      clearTimeout(timer);
+      clearTimeout(forceKill);
+      for (const stream of ["stdout", "stderr"] as const) {
+        handleText(stream, decoders[stream].end());
+        if (partial[stream]) options.onLine?.(stream, partial[stream]);
+      }
+      resolve({
+        output,
+        outputDigest: `sha256:${hash.digest("hex")}`,
+        outputBytes,
+        exitCode: code,
+        signal: signal ?? null,
+        timedOut,
+        durationMs: Date.now() - startedAt,
+      });
+    });
+  });
+}
+
+export async function runTerminal(
+  command: string,
+  approvalToken: string,
+  cwd?: string,
+  options: TerminalRunOptions = {}
+): Promise<TerminalRunResult> {
+  const workDir = assertWithinWorkspace(cwd || WORKSPACE_ROOT_REAL);
+  let tokenData: ReturnType<typeof consumeApprovalToken>;
+  try {
+    tokenData = consumeApprovalToken(approvalToken, "terminal_run", command, workDir);
+  } catch (err: any) {
+    await appendAudit({ event: "execution_rejected", action: "terminal_run", command, cwd: workDir, error: err.message });
+    throw err;
   }
-  // One-time use
-  activeTokens.delete(approvalToken);
-  
-  const workDir = cwd || process.cwd();
-  const result = execSync(command, {
+
+  let result: TerminalRunResult;
+  try {
+    result = await spawnCommand(command, workDir, options);
+  } catch (err: any) {
+    await appendAudit({
+      event: "command_executed",
+      request_id: tokenData.requestId,
+      action: "terminal_run",
+      command,
+      cwd: workDir,
+      decided_by: tokenData.decidedBy,
+      exit_code: null,
+      error: err.message,
+    });
+    recordApprovalOutcome({ requestId: tokenData.requestId, action: "terminal_run", exitCode: null, timedOut: false, output: "", error: err.message });
+    throw err;
+  }
+
+  await appendAudit({
+    event: "command_executed",
+    request_id: tokenData.requestId,
+    action: "terminal_run",
+    command,
     cwd: workDir,
-    encoding: "utf-8",
-    timeout: 30000,
-    maxBuffer: 1024 * 1024,
+    decided_by: tokenData.decidedBy,
+    exit_code: result.exitCode,
+    output_digest: result.outputDigest,
+    output_bytes: result.outputBytes,
+    duration_ms: result.durationMs,
+    ...(result.timedOut ? { error: "timed out" } : {}),
   });
-  
+  recordApprovalOutcome({
+    requestId: tokenData.requestId,
+    action: "terminal_run",
+    exitCode: result.exitCode,
+    timedOut: result.timedOut,
+    output: result.output.slice(-MAX_OUTCOME_OUTPUT_CHARS),
+  });
+  return result;
+}
+
+// ============================================
+// FILE WRITES (approval-gated)
+// ============================================
+function sha256(text: string): string {
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
+
+/** The "command" a file write approval is bound to: target path + content hash. */
+function describeWrite(path: string, content: string): string {
+  return `write ${path} (sha256:${sha256(content)})`;
+}
+
+function readIfExists(path: string): string | null {
+  return existsSync(path) ? readFileSync(path, "utf-8") : null;
+}
+
+/**
+ * Stage a full-file write and open an approval request for it. Nothing touches
+ * disk until `applyFileWrite` is called with a token granted for this request.
+ */
+export async function proposeFileWrite(
+  path: string,
+  content: string,
+  reason: string
+): Promise<ApprovalRequestResult> {
+  const base = readIfExists(path);
+  const result = await requestApproval("file_write", reason, describeWrite(path, content), dirname(path));
+  if (result.status === "denied") return result;
+  stagedWrites.set(result.request_id, {
+    path,
+    content,
+    baseHash: base === null ? null : sha256(base),
+  });
+  // Outlive the pending request (5 min) by the token lifetime (1 min)
+  setTimeout(() => stagedWrites.delete(result.request_id), 6 * 60 * 1000);
   return result;
 }
 
+export async function applyFileWrite(
+  requestId: string,
+  approvalToken: string
+): Promise<{ path: string; bytes: number; created: boolean }> {
+  const staged = stagedWrites.get(requestId);
+  if (!staged) {
+    throw new Error("⛔ PERMISSION DENIED: No staged file write for this request");
+  }
+  const dir = assertWithinWorkspace(dirname(staged.path));
+  const command = describeWrite(staged.path, staged.content);
+  let tokenData: ReturnType<typeof consumeApprovalToken>;
+  try {
+    tokenData = consumeApprovalToken(approvalToken, "file_write", command, dir);
+  } catch (err: any) {
+    await appendAudit({ event: "execution_rejected", request_id: requestId, action: "file_write", command, cwd: dir, error: err.message });
+    throw err;
+  }
+  stagedWrites.delete(requestId);
+
+  // Re-resolve right before writing: a symlink swapped in after the proposal must not lead out of the workspace
+  let target: string;
+  try {
+    target = resolveWorkspaceWritePath(toWorkspaceRelativePath(join(dir, basename(staged.path))));
+  } catch (err: any) {
+    const message = `⛔ PERMISSION DENIED: ${err.message}`;
+    await appendAudit({ event: "execution_rejected", request_id: requestId, action: "file_write", command, cwd: dir, error: message });
+    recordApprovalOutcome({ requestId, action: "file_write", written: false, path: staged.path, error: message });
+    throw new Error(message);
+  }
+
+  // Refuse to clobber edits made after the diff was reviewed
+  const current = readIfExists(target);
+  if ((current === null ? null : sha256(current)) !== staged.baseHash) {
+    const message = "File changed since the edit was proposed. Ask for a fresh diff.";
+    await appendAudit({ event: "execution_rejected", request_id: requestId, action: "file_write", command, cwd: dir, error: message });
+    recordApprovalOutcome({ requestId, action: "file_write", written: false, path: target, error: message });
+    throw new Error(message);
+  }
+
+  // The target is now a real path; never follow a link created since
+  const fd = openSync(target, constants.O_WRONLY | constants.O_CREAT | constants.O_TRUNC | constants.O_NOFOLLOW, 0o666);
+  try {
+    writeFileSync(fd, staged.content, "utf-8");
+  } finally {
+    closeSync(fd);
+  }
+  recordApprovalOutcome({ requestId, action: "file_write", written: true, path: target });
+  await appendAudit({
+    event: "file_written",
+    request_id: requestId,
+    action: "file_write",
+    command,
+    cwd: dir,
+    decided_by: tokenData.decidedBy,
+    output_digest: digestOutput(staged.content),
+    output_bytes: Buffer.byteLength(staged.content),
+  });
+  return { path: target, bytes: Buffer.byteLength(staged.content), created: current === null };
+}
+
 export async function gitStatus(cwd: string): Promise<string> {
   try {
     const result = execSync("git status --porcelain", {
-      cwd,
+      cwd: assertWithinWorkspace(cwd),
       encoding: "utf-8",
     });
     return result || "Clean working directory";
@@ -156,7 +724,7 @@ export async function gitStatus(cwd: string): Promise<string> {
 export async function gitDiff(cwd: string): Promise<string> {
   try {
     const result = execSync("git diff", {
-      cwd,
+      cwd: assertWithinWorkspace(cwd),
       encoding: "utf-8",
     });
     return result || "No uncommitted changes";
@@ -0,0 +1,247 @@
+/**
+ * Mock Provider (record / replay)
+ *
+ * An `AIChat` that answers from scripted `ModelTurn`s instead of a live API,
+ * so the agent route and its tool loop can run deterministically without keys
+ * (app/api/agent/route.test.ts drives the loop this way).
+ *
+ * - Scripted: `createMockChat(label, turns)` from code, or turns registered
+ *   with `registerMockScript(name, turns)` and selected by the mock model
+ *   `script:<name>` (e.g. `VIBE_MOCK_CASSETTE=script:<name>`).
+ * - Replay: a cassette file, enabled with `VIBE_MOCK_CASSETTE=<path>` or a
+ *   provider config entry with `"api": "mock"` whose models are cassette paths.
+ * - Record: `VIBE_RECORD_CASSETTE=<path>` wraps every real provider and appends
+ *   each turn it returns to that cassette.
+ *
+ * Cassette paths are workspace-relative. A replay cursor is shared by every
+ * chat on the same cassette or registered script, so one script can cover a
+ * whole conversation across requests (and across a failover).
+ *
+ *   {
+ *     "version": 1,
+ *     "turns": [
+ *       { "turn": { "text": "", "functionCalls": [{ "name": "read_file", "args": { "path": "README.md" } }] } },
+ *       { "turn": { "text": "The README describes...", "functionCalls": [] } }
+ *     ]
+ *   }
+ */
+
+import crypto from "crypto";
+import { readFileSync, statSync } from "fs";
+import { mkdir, writeFile } from "fs/promises";
+import { dirname, isAbsolute, join } from "path";
+import { z } from "zod";
+import { WORKSPACE_ROOT_REAL } from "./workspace";
+import type { AIChat, ChatStreamEvent, FunctionResult, ModelTurn } from "./ai-providers";
+
+const ModelTurnSchema = z.object({
+  text: z.string().default(""),
+  functionCalls: z
+    .array(
+      z.object({ id: z.string().optional(), name: z.string(), args: z.record(z.any()).default({}), argsError: z.string().optional() })
+    )
+    .default([]),
+  usage: z
+    .object({ inputTokens: z.number(), outputTokens: z.number(), cachedTokens: z.number().default(0) })
+    .optional(),
+});
+
+const CassetteEntrySchema = z.object({
+  /** Label of the provider that produced the turn (recordings only). */
+  label: z.string().optional(),
+  /** What the turn answered; informational, not checked on replay. */
+  input: z
+    .union([
+      z.object({ type: z.literal("message"), message: z.string() }),
+      z.object({ type: z.literal("tool_results"), results: z.array(z.object({ id: z.string().optional(), name: z.string(), result: z.any() })) }),
+    ])
+    .optional(),
+  turn: ModelTurnSchema,
+});
+
+const CassetteSchema = z.object({
+  version: z.literal(1).default(1),
+  turns: z.array(CassetteEntrySchema),
+});
+
+/** A turn as written in a cassette or script: text and call ids may be omitted. */
+export type ScriptedTurn = z.input<typeof ModelTurnSchema>;
+export type CassetteEntry = z.infer<typeof CassetteEntrySchema>;
+export type Cassette = z.infer<typeof CassetteSchema>;
+
+type ChatInput = NonNullable<CassetteEntry["input"]>;
+
+export function resolveCassettePath(path: string): string {
+  return isAbsolute(path) ? path : join(WORKSPACE_ROOT_REAL, path);
+}
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+interface TurnScript {
+  turns: ModelTurn[];
+  next: number;
+}
+
+// Replay cursors by cassette path; reloaded (and rewound) when the file changes
+const cassettes = new Map<string, TurnScript & { mtimeMs: number }>();
+
+export function loadCassette(path: string): Cassette {
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(resolveCassettePath(path), "utf-8"));
+  } catch (err: any) {
+    throw new Error(`Invalid cassette ${path}: ${err.message}`);
+  }
+  const parsed = CassetteSchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+    throw new Error(`Invalid cassette ${path}: ${issues}`);
+  }
+  return parsed.data;
+}
+
+// Scripts registered from code by name, replayed by the mock model `script:<name>`
+const registeredScripts = new Map<string, TurnScript>();
+
+const SCRIPT_MODEL_PREFIX = "script:";
+
+// Hand-written turns may omit call ids; every replayed call needs a unique one
+function withCallIds(turns: z.infer<typeof ModelTurnSchema>[]): ModelTurn[] {
+  return turns.map((turn) => ({
+    ...turn,
+    functionCalls: turn.functionCalls.map((call) => ({ ...call, id: call.id || `call_${crypto.randomUUID().replace(/-/g, "").slice(0, 24)}` })),
+  }));
+}
+
+function cassetteScript(path: string): TurnScript {
+  const absolutePath = resolveCassettePath(path);
+  const mtimeMs = statSync(absolutePath).mtimeMs;
+  const cached = cassettes.get(absolutePath);
+  if (cached && cached.mtimeMs === mtimeMs) return cached;
+  const script = { turns: withCallIds(loadCassette(path).turns.map(({ turn }) => turn)), next: 0, mtimeMs };
+  cassettes.set(absolutePath, script);
+  return script;
+}
+
+/** Rewind every cassette to its first turn. */
+export function resetMockCassettes() {
+  cassettes.clear();
+}
+
+/** Register `turns` for the mock model `script:<name>`, replacing (and rewinding) any script of that name. */
+export function registerMockScript(name: string, turns: ScriptedTurn[]) {
+  registeredScripts.set(name, { turns: withCallIds(turns.map((turn) => ModelTurnSchema.parse(turn))), next: 0 });
+}
+
+function chunkText(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+function createScriptedChat(label: string, script: TurnScript, source: string): AIChat {
+  function nextTurn(): ModelTurn {
+    const turn = script.turns[script.next];
+    if (!turn) throw new Error(`Mock ${source} exhausted after ${script.turns.length} turns`);
+    script.next++;
+    return turn;
+  }
+
+  async function* stream(): AsyncGenerator<ChatStreamEvent> {
+    const turn = nextTurn();
+    for (const text of chunkText(turn.text)) yield { type: "text_delta", text };
+    for (const call of turn.functionCalls) yield { type: "function_call", call };
+    yield { type: "done", turn };
+  }
+
+  return {
+    label,
+    async sendMessage() {
+      return nextTurn();
+    },
+    async sendToolResults() {
+      return nextTurn();
+    },
+    streamMessage() {
+      return stream();
+    },
+    streamToolResults() {
+      return stream();
+    },
+  };
+}
+
+/** A chat that answers with `turns` in order, then throws. */
+export function createMockChat(label: string, turns: ModelTurn[]): AIChat {
+  return createScriptedChat(label, { turns, next: 0 }, "script");
+}
+
+/** A chat replaying the cassette at `path`. */
+export function createCassetteChat(label: string, path: string): AIChat {
+  return createScriptedChat(label, cassetteScript(path), `cassette ${path}`);
+}
+
+/** A chat for a mock model: a registered `script:<name>` or a cassette path. */
+export function createReplayChat(label: string, model: string): AIChat {
+  if (!model.startsWith(SCRIPT_MODEL_PREFIX)) return createCassetteChat(label, model);
+  const name = model.slice(SCRIPT_MODEL_PREFIX.length);
+  const script = registeredScripts.get(name);
+  if (!script) throw new Error(`No mock script registered as "${name}"`);
+  return createScriptedChat(label, script, `script ${name}`);
+}
+
+// ---------------------------------------------------------------------------
+// Record
+// ---------------------------------------------------------------------------
+
+const recordings = new Map<string, Cassette>();
+// Writes are chained so turns land in the file in order
+let recordChain: Promise<void> = Promise.resolve();
+
+function appendRecording(path: string, entry: CassetteEntry): Promise<void> {
+  const absolutePath = resolveCassettePath(path);
+  let cassette = recordings.get(absolutePath);
+  if (!cassette) {
+    // Keep turns recorded by an earlier server run
+    try {
+      cassette = loadCassette(path);
+    } catch {
+      cassette = { version: 1, turns: [] };
+    }
+    recordings.set(absolutePath, cassette);
+  }
+  cassette.turns.push(entry);
+  const snapshot = JSON.stringify(cassette, null, 2);
+  recordChain = recordChain
+    .then(async () => {
+      await mkdir(dirname(absolutePath), { recursive: true });
+      await writeFile(absolutePath, snapshot + "\n", "utf-8");
+    })
+    .catch((err) => console.warn(`[ai] Failed to write cassette ${path}: ${err.message}`));
+  return recordChain;
+}
+
+/** Wrap a real chat so every turn it returns is appended to the cassette at `path`. */
+export function recordToCassette(chat: AIChat, path: string): AIChat {
+  const record = async (input: ChatInput, turn: ModelTurn) => {
+    await appendRecording(path, { label: chat.label, input, turn });
+    return turn;
+  };
+
+  async function* recordStream(input: ChatInput, stream: AsyncIterable<ChatStreamEvent>) {
+    for await (const event of stream) {
+      if (event.type === "done") await record(input, event.turn);
+      yield event;
+    }
+  }
+
+  const resultsInput = (results: FunctionResult[]): ChatInput => ({ type: "tool_results", results });
+
+  return {
+    label: chat.label,
+    sendMessage: async (message) => record({ type: "message", message }, await chat.sendMessage(message)),
+    sendToolResults: async (results) => record(resultsInput(results), await chat.sendToolResults(results)),
+    streamMessage: (message) => recordStream({ type: "message", message }, chat.streamMessage(message)),
+    streamToolResults: (results) => recordStream(resultsInput(results), chat.streamToolResults(results)),
+  };
+}
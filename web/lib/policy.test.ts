@@ -0,0 +1,59 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+// No .vibe/policy.json in a scratch workspace, so only the built-in rules apply
+const workspace = mkdtempSync(join(tmpdir(), "vibe-policy-"));
+process.env.WORKSPACE_ROOT = workspace;
+
+let evaluatePolicy: typeof import("./policy").evaluatePolicy;
+
+beforeAll(async () => {
+  ({ evaluatePolicy } = await import("./policy"));
+});
+
+afterAll(() => {
+  rmSync(workspace, { recursive: true, force: true });
+});
+
+const effectOf = (command: string) => evaluatePolicy("terminal_run", command).effect;
+
+describe("default policy", () => {
+  it.each([
+    "rm -rf /",
+    "rm -rf /*",
+    "rm -rf ~",
+    "rm -rf ~/",
+    "rm -rf $HOME/",
+    'rm -rf "$HOME"',
+    "rm --recursive --force /",
+    "rm -r --no-preserve-root -- /",
+  ])("denies %s", (command) => {
+    expect(evaluatePolicy("terminal_run", command)).toMatchObject({ effect: "deny", ruleId: "deny-rm-root" });
+  });
+
+  it.each(["rm -rf /tmp/build", "rm -rf ~/project/dist", "rm -rf ./node_modules"])("does not block %s", (command) => {
+    expect(effectOf(command)).toBe("require_approval");
+  });
+
+  it.each(["git status", "git diff HEAD~1", "git log --oneline -5", "git show HEAD", "git branch", "git branch -a", "git branch --show-current"])(
+    "auto-approves %s",
+    (command) => {
+      expect(effectOf(command)).toBe("allow");
+    }
+  );
+
+  it.each([
+    "git branch -D main",
+    "git branch -d feature",
+    "git branch -m old new",
+    "git branch -f main HEAD~3",
+    "git branch new-branch",
+    "git diff --output=/tmp/x",
+    "git log --outp=/tmp/x",
+    "git status && rm -rf build",
+  ])("asks before %s", (command) => {
+    expect(effectOf(command)).toBe("require_approval");
+  });
+});
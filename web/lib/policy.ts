@@ -0,0 +1,146 @@
+/**
+ * Approval Policy
+ *
+ * Ordered allow / deny / require-approval rules evaluated for every approval
+ * request. Rules live in `<workspace>/.vibe/policy.json` and are checked before
+ * the built-in defaults below (unless `include_defaults` is false); when the
+ * file is absent only the defaults apply. The first matching rule wins.
+ *
+ *   {
+ *     "default": "require_approval",
+ *     "rules": [
+ *       { "id": "tests", "action": "terminal_run", "command": "npm test*", "effect": "allow" },
+ *       { "id": "no-force-push", "regex": "git\\s+push\\s+.*--force", "effect": "deny",
+ *         "message": "Force pushes must be done by hand." }
+ *     ]
+ *   }
+ */
+
+import { readFileSync, statSync } from "fs";
+import { join } from "path";
+import { z } from "zod";
+import { WORKSPACE_ROOT_REAL } from "./workspace";
+
+export const POLICY_PATH = join(WORKSPACE_ROOT_REAL, ".vibe", "policy.json");
+
+const EffectSchema = z.enum(["allow", "deny", "require_approval"]);
+export type PolicyEffect = z.infer<typeof EffectSchema>;
+
+const RuleSchema = z
+  .object({
+    id: z.string().min(1),
+    description: z.string().optional(),
+    /** Glob over the action name (`terminal_run`, `file_write`); default `*`. */
+    action: z.string().default("*"),
+    /** Glob matched against the whole command. */
+    command: z.string().optional(),
+    /** Regular expression searched anywhere in the command. */
+    regex: z.string().optional(),
+    effect: EffectSchema,
+    /** Returned to the model (and shown on the card) when the rule matches. */
+    message: z.string().optional(),
+  })
+  .refine((r) => !(r.command && r.regex), { message: "Use either `command` or `regex`, not both" })
+  .refine((r) => !r.regex || isValidRegex(r.regex), { message: "Invalid `regex`" });
+
+const PolicySchema = z.object({
+  default: EffectSchema.default("require_approval"),
+  include_defaults: z.boolean().default(true),
+  rules: z.array(RuleSchema).default([]),
+});
+
+export type PolicyRule = z.infer<typeof RuleSchema>;
+export type Policy = z.infer<typeof PolicySchema>;
+
+export interface PolicyDecision {
+  effect: PolicyEffect;
+  /** Id of the matching rule, or `default` when none matched. */
+  ruleId: string;
+  message?: string;
+}
+
+// Catastrophic commands are always blocked unless a policy file says otherwise
+const DEFAULT_POLICY: Policy = {
+  default: "require_approval",
+  include_defaults: false,
+  rules: [
+    { id: "deny-rm-root", action: "terminal_run", regex: "\\brm\\s+(-{1,2}[a-zA-Z-]*\\s+)*[\"']?(/|~/?|\\$\\{?HOME\\}?/?)[\"']?(\\s|$|\\*)", effect: "deny", message: "Recursive deletes of / or the home directory are blocked." },
+    { id: "deny-mkfs", action: "terminal_run", regex: "\\bmkfs(\\.\\w+)?\\b", effect: "deny", message: "Formatting filesystems is blocked." },
+    { id: "deny-dd-device", action: "terminal_run", regex: "\\bdd\\b.*\\bof=/dev/", effect: "deny", message: "Writing raw devices is blocked." },
+    { id: "deny-fork-bomb", action: "terminal_run", regex: ":\\(\\)\\s*\\{\\s*:\\|:&\\s*\\};:", effect: "deny", message: "Fork bombs are blocked." },
+    { id: "deny-shutdown", action: "terminal_run", regex: "\\b(shutdown|reboot|halt|poweroff)\\b", effect: "deny", message: "Power management commands are blocked." },
+    // Read-only forms only: `--output` (or an abbreviation like `--outp`) writes a file anywhere, and
+    // `git branch` with a name or -d/-D/-m/-M/-c/-f creates, renames or deletes branches
+    { id: "allow-git-read", action: "terminal_run", regex: "^git\\s+(status|diff|log|show)\\b(?!.*\\s--ou)", effect: "allow" },
+    { id: "allow-git-branch-list", action: "terminal_run", regex: "^git\\s+branch(\\s+(-a|-r|-v|-vv|--all|--remotes|--verbose|--list|--show-current|--no-color))*\\s*$", effect: "allow" },
+  ],
+};
+
+// Allow rules never match chained or redirected commands: `git status && rm -rf x`
+// must not ride on an allow rule for `git status*`.
+const SHELL_CONTROL = /[;&|`<>\n]|\$\(/;
+
+function isValidRegex(source: string): boolean {
+  try {
+    new RegExp(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "s");
+}
+
+function ruleMatches(rule: PolicyRule, action: string, command: string): boolean {
+  if (!globToRegExp(rule.action).test(action)) return false;
+  if (rule.effect === "allow" && SHELL_CONTROL.test(command)) return false;
+  if (rule.regex) return new RegExp(rule.regex).test(command);
+  if (rule.command) return globToRegExp(rule.command).test(command.trim());
+  return true;
+}
+
+let cached: { mtimeMs: number; policy: Policy } | null = null;
+
+/**
+ * Load the workspace policy, re-reading only when the file changes. Throws on
+ * an invalid file so a typo can't silently widen what runs unattended.
+ */
+export function loadPolicy(): Policy {
+  let mtimeMs: number;
+  try {
+    mtimeMs = statSync(POLICY_PATH).mtimeMs;
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return DEFAULT_POLICY;
+    throw err;
+  }
+  if (cached && cached.mtimeMs === mtimeMs) return cached.policy;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(POLICY_PATH, "utf-8"));
+  } catch (err: any) {
+    throw new Error(`Invalid policy file ${POLICY_PATH}: ${err.message}`);
+  }
+  const parsed = PolicySchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+    throw new Error(`Invalid policy file ${POLICY_PATH}: ${issues}`);
+  }
+  const policy = parsed.data.include_defaults
+    ? { ...parsed.data, rules: [...parsed.data.rules, ...DEFAULT_POLICY.rules] }
+    : parsed.data;
+  cached = { mtimeMs, policy };
+  return policy;
+}
+
+export function evaluatePolicy(action: string, command: string, policy: Policy = loadPolicy()): PolicyDecision {
+  for (const rule of policy.rules) {
+    if (ruleMatches(rule, action, command)) {
+      return { effect: rule.effect, ruleId: rule.id, message: rule.message };
+    }
+  }
+  return { effect: policy.default, ruleId: "default" };
+}
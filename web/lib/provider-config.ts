@@ -0,0 +1,119 @@
+/**
+ * Custom Provider Config
+ *
+ * Extra providers declared in `<workspace>/.vibe/providers.json` (or the file
+ * named by `VIBE_PROVIDERS_CONFIG`): local OpenAI-compatible servers such as
+ * Ollama, vLLM or llama.cpp, corporate gateways, or extra models on a built-in
+ * API. Keys are never stored in the file; `api_key_env` names the environment
+ * variable holding one, and providers without it are called with no key.
+ *
+ *   {
+ *     "providers": [
+ *       { "name": "ollama", "api": "openai", "base_url": "http://localhost:11434/v1",
+ *         "models": ["qwen2.5-coder:14b"], "priority": 10,
+ *         "prices": { "qwen2.5-coder:14b": { "input": 0, "output": 0 } },
+ *         "context_windows": { "qwen2.5-coder:14b": 32768 } },
+ *       { "name": "gateway", "api": "anthropic", "base_url": "https://llm.corp.example/anthropic",
+ *         "models": ["claude-sonnet-4-20250514"], "api_key_env": "CORP_LLM_KEY",
+ *         "headers": { "x-team": "platform" } }
+ *     ]
+ *   }
+ *
+ * Providers are tried by descending `priority`; built-in providers have
+ * priority 0 and come first among equals. `include_builtin: false` drops them,
+ * e.g. to run fully offline.
+ */
+
+import { readFileSync, statSync } from "fs";
+import { isAbsolute, join } from "path";
+import { z } from "zod";
+import { WORKSPACE_ROOT_REAL } from "./workspace";
+
+export const PROVIDERS_CONFIG_PATH = process.env.VIBE_PROVIDERS_CONFIG
+  ? isAbsolute(process.env.VIBE_PROVIDERS_CONFIG)
+    ? process.env.VIBE_PROVIDERS_CONFIG
+    : join(WORKSPACE_ROOT_REAL, process.env.VIBE_PROVIDERS_CONFIG)
+  : join(WORKSPACE_ROOT_REAL, ".vibe", "providers.json");
+
+const PriceSchema = z.object({
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative(),
+  cached_input: z.number().nonnegative().optional(),
+});
+
+const CustomProviderSchema = z.object({
+  /** Label prefix (`name/model`). A built-in name (e.g. `openai`) adds models to that provider's labels. */
+  name: z.string().regex(/^[a-z0-9][a-z0-9_.-]*$/i, "Use letters, digits, `.`, `_` or `-`"),
+  /** Wire protocol the endpoint speaks; `mock` replays the cassette (or `script:<name>`) named by each model. */
+  api: z.enum(["openai", "anthropic", "gemini", "mock"]).default("openai"),
+  base_url: z.string().url().optional(),
+  models: z.array(z.string().min(1)).min(1),
+  api_key_env: z.string().min(1).optional(),
+  headers: z.record(z.string()).default({}),
+  priority: z.number().default(0),
+  /** USD per million tokens, keyed by model. */
+  prices: z.record(PriceSchema).default({}),
+  /** Context window in tokens, keyed by model (unlisted models assume 32k). */
+  context_windows: z.record(z.number().int().positive()).default({}),
+});
+
+const ProvidersFileSchema = z.object({
+  include_builtin: z.boolean().default(true),
+  providers: z.array(CustomProviderSchema).default([]),
+});
+
+export type CustomProvider = z.infer<typeof CustomProviderSchema>;
+export type ProvidersFile = z.infer<typeof ProvidersFileSchema>;
+
+const EMPTY_CONFIG: ProvidersFile = { include_builtin: true, providers: [] };
+
+let cached: { mtimeMs: number; config: ProvidersFile } | null = null;
+
+/**
+ * Load the provider config, re-reading only when the file changes. Throws on
+ * an invalid file rather than silently falling back to other providers.
+ */
+export function loadProviderConfig(): ProvidersFile {
+  let mtimeMs: number;
+  try {
+    mtimeMs = statSync(PROVIDERS_CONFIG_PATH).mtimeMs;
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return EMPTY_CONFIG;
+    throw err;
+  }
+  if (cached && cached.mtimeMs === mtimeMs) return cached.config;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(PROVIDERS_CONFIG_PATH, "utf-8"));
+  } catch (err: any) {
+    throw new Error(`Invalid provider config ${PROVIDERS_CONFIG_PATH}: ${err.message}`);
+  }
+  const parsed = ProvidersFileSchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+    throw new Error(`Invalid provider config ${PROVIDERS_CONFIG_PATH}: ${issues}`);
+  }
+  const names = parsed.data.providers.map((p) => p.name);
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) {
+    throw new Error(`Invalid provider config ${PROVIDERS_CONFIG_PATH}: provider "${duplicate}" is declared twice`);
+  }
+  cached = { mtimeMs, config: parsed.data };
+  return parsed.data;
+}
+
+/** USD-per-million prices declared in the config, keyed by `name/model` label. */
+export function customModelPrices(): Record<string, { input: number; cachedInput: number; output: number }> {
+  const prices: Record<string, { input: number; cachedInput: number; output: number }> = {};
+  for (const def of loadProviderConfig().providers) {
+    for (const [model, price] of Object.entries(def.prices)) {
+      prices[`${def.name}/${model}`] = {
+        input: price.input,
+        cachedInput: price.cached_input ?? price.input,
+        output: price.output,
+      };
+    }
+  }
+  return prices;
+}
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getProviderHealth, isProviderAvailable, recordProviderFailure, recordProviderSuccess } from "./provider-health";
+
+const authError = Object.assign(new Error("API key not valid"), { status: 401 });
+const serverError = Object.assign(new Error("overloaded"), { status: 503 });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("provider health", () => {
+  it("disable only the key that was rejected", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    recordProviderFailure("gemini/auth-test", "gemini-key", authError);
+    expect(isProviderAvailable("gemini/auth-test", "gemini-key")).toBe(false);
+    expect(isProviderAvailable("gemini/auth-test", "google-key")).toBe(true);
+
+    // Using the other key must not re-enable the rejected one
+    recordProviderSuccess("gemini/auth-test", "google-key", 120);
+    expect(isProviderAvailable("gemini/auth-test", "gemini-key")).toBe(false);
+  });
+
+  it("open the circuit only for the failing key", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    for (let i = 0; i < 3; i++) recordProviderFailure("gemini/circuit-test", "gemini-key", serverError);
+    expect(isProviderAvailable("gemini/circuit-test", "gemini-key")).toBe(false);
+    expect(isProviderAvailable("gemini/circuit-test", "google-key")).toBe(true);
+  });
+
+  it("report each key of a label separately", () => {
+    recordProviderSuccess("gemini/report-test", "gemini-key", 100);
+    recordProviderSuccess("gemini/report-test", "google-key", 200);
+    const reported = getProviderHealth().filter((h) => h.label === "gemini/report-test");
+    expect(reported).toHaveLength(2);
+    expect(new Set(reported.map((h) => h.keyId)).size).toBe(2);
+    expect(JSON.stringify(reported)).not.toContain("gemini-key");
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Provider Health Registry
+ *
+ * In-memory health per `provider/model` label and API key: latency, the class
+ * of the last error and consecutive failures. Transient failures (rate limits,
+ * timeouts, server errors) open a circuit for a cooldown that grows while the
+ * provider keeps failing; auth failures disable the key. The same model set up
+ * under two keys (GEMINI_API_KEY and GOOGLE_API_KEY) is tracked once per key,
+ * so one key's failures never disable, or re-enable, the other.
+ * The chat factory consults this before trying a provider and reports every
+ * call back to it.
+ */
+
+import crypto from "crypto";
+
+export type ProviderErrorClass = "auth" | "rate_limit" | "timeout" | "server" | "client" | "unknown";
+
+export type CircuitState = "closed" | "open" | "half_open" | "disabled";
+
+export interface ProviderHealth {
+  label: string;
+  /** Short hash of the API key, telling apart one label configured under two keys. */
+  keyId: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalCalls: number;
+  totalFailures: number;
+  /** Latency of the last successful call. */
+  lastLatencyMs: number | null;
+  /** Exponentially weighted average latency of successful calls. */
+  avgLatencyMs: number | null;
+  lastSuccessAt: string | null;
+  lastError: { class: ProviderErrorClass; message: string; at: string } | null;
+  /** When an open circuit lets a trial call through again. */
+  openUntil: string | null;
+}
+
+interface HealthRecord extends ProviderHealth {
+  openUntilMs: number;
+  /** Cooldowns applied in a row without a success in between. */
+  consecutiveOpens: number;
+}
+
+/** Consecutive transient failures before the circuit opens. */
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_BASE_COOLDOWN_MS = 30_000;
+const CIRCUIT_MAX_COOLDOWN_MS = 5 * 60_000;
+/** Retries of a transient error on the same provider before falling back. */
+export const MAX_PROVIDER_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8_000;
+const LATENCY_EWMA_WEIGHT = 0.3;
+
+const TRANSIENT_CLASSES = new Set<ProviderErrorClass>(["rate_limit", "timeout", "server"]);
+
+const records = new Map<string, HealthRecord>();
+
+function keyFingerprint(apiKey: string): string {
+  return crypto.createHash("sha256").update(apiKey).digest("hex").slice(0, 16);
+}
+
+function recordKey(label: string, apiKey: string): string {
+  return `${label}#${keyFingerprint(apiKey)}`;
+}
+
+function recordFor(label: string, apiKey: string): HealthRecord {
+  const key = recordKey(label, apiKey);
+  let record = records.get(key);
+  if (!record) {
+    record = {
+      label,
+      keyId: keyFingerprint(apiKey).slice(0, 8),
+      state: "closed",
+      consecutiveFailures: 0,
+      totalCalls: 0,
+      totalFailures: 0,
+      lastLatencyMs: null,
+      avgLatencyMs: null,
+      lastSuccessAt: null,
+      lastError: null,
+      openUntil: null,
+      openUntilMs: 0,
+      consecutiveOpens: 0,
+    };
+    records.set(key, record);
+  }
+  return record;
+}
+
+/** Classify an SDK or network error (OpenAI, Anthropic and Gemini errors all carry `status`). */
+export function classifyProviderError(err: any): ProviderErrorClass {
+  const status = typeof err?.status === "number" ? err.status : undefined;
+  const text = `${err?.name || ""} ${err?.code || ""} ${err?.message || ""}`;
+  if (status === 401 || status === 403 || /invalid.{0,20}api.?key|API_KEY_INVALID|unauthori[sz]ed/i.test(text)) {
+    return "auth";
+  }
+  if (status === 429 || /rate.?limit|RESOURCE_EXHAUSTED|quota/i.test(text)) return "rate_limit";
+  if (status === 408 || /timed?.?out|ETIMEDOUT|AbortError/i.test(text)) return "timeout";
+  if ((status !== undefined && status >= 500) || /ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|fetch failed|overloaded/i.test(text)) {
+    return "server";
+  }
+  if (status !== undefined && status >= 400) return "client";
+  return "unknown";
+}
+
+export function isTransient(errorClass: ProviderErrorClass): boolean {
+  return TRANSIENT_CLASSES.has(errorClass);
+}
+
+/**
+ * Whether a provider may be tried now with `apiKey`. An open circuit past its
+ * cooldown moves to half-open and lets one trial call through; a changed key
+ * has no record yet and gets a fresh start.
+ */
+export function isProviderAvailable(label: string, apiKey: string): boolean {
+  const record = records.get(recordKey(label, apiKey));
+  if (!record) return true;
+  if (record.state === "disabled") return false;
+  if (record.state === "open") {
+    if (Date.now() < record.openUntilMs) return false;
+    record.state = "half_open";
+  }
+  return true;
+}
+
+/** Why `isProviderAvailable` said no, for error messages. */
+export function describeUnavailable(label: string, apiKey: string): string {
+  const record = records.get(recordKey(label, apiKey));
+  if (!record) return "available";
+  if (record.state === "disabled") return `disabled after ${record.lastError?.class || "auth"} error`;
+  if (record.state === "open") return `circuit open for ${Math.ceil((record.openUntilMs - Date.now()) / 1000)}s`;
+  return record.state;
+}
+
+export function recordProviderSuccess(label: string, apiKey: string, latencyMs: number) {
+  const record = recordFor(label, apiKey);
+  record.totalCalls++;
+  record.consecutiveFailures = 0;
+  record.consecutiveOpens = 0;
+  record.state = "closed";
+  record.openUntil = null;
+  record.openUntilMs = 0;
+  record.lastLatencyMs = latencyMs;
+  record.avgLatencyMs =
+    record.avgLatencyMs === null
+      ? latencyMs
+      : Math.round(record.avgLatencyMs * (1 - LATENCY_EWMA_WEIGHT) + latencyMs * LATENCY_EWMA_WEIGHT);
+  record.lastSuccessAt = new Date().toISOString();
+}
+
+/** Record a failed call and return its class. */
+export function recordProviderFailure(label: string, apiKey: string, err: any): ProviderErrorClass {
+  const errorClass = classifyProviderError(err);
+  const record = recordFor(label, apiKey);
+  record.totalCalls++;
+  record.totalFailures++;
+  record.consecutiveFailures++;
+  record.lastError = { class: errorClass, message: String(err?.message || err).slice(0, 300), at: new Date().toISOString() };
+
+  if (errorClass === "auth") {
+    record.state = "disabled";
+    console.warn(`[ai] ${label} (key ${record.keyId}) disabled: API key rejected (${record.lastError.message.slice(0, 80)})`);
+  } else if (isTransient(errorClass) && (record.state === "half_open" || record.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD)) {
+    const cooldown = Math.min(CIRCUIT_BASE_COOLDOWN_MS * 2 ** record.consecutiveOpens, CIRCUIT_MAX_COOLDOWN_MS);
+    record.consecutiveOpens++;
+    record.state = "open";
+    record.openUntilMs = Date.now() + cooldown;
+    record.openUntil = new Date(record.openUntilMs).toISOString();
+    console.warn(`[ai] ${label} circuit open for ${cooldown / 1000}s after ${record.consecutiveFailures} failures`);
+  }
+  return errorClass;
+}
+
+/**
+ * Delay before retry `attempt` (0-based): full-jitter exponential backoff,
+ * or the provider's `retry-after` when it sent one.
+ */
+export function retryDelayMs(attempt: number, err?: any): number {
+  const headers = err?.headers;
+  const retryAfter = typeof headers?.get === "function" ? headers.get("retry-after") : headers?.["retry-after"];
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds > 0) return Math.min(seconds * 1000, RETRY_MAX_DELAY_MS);
+  return Math.round(Math.random() * Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS));
+}
+
+/** Snapshot for the health API, worst state first. */
+export function getProviderHealth(): ProviderHealth[] {
+  const order: Record<CircuitState, number> = { disabled: 0, open: 1, half_open: 2, closed: 3 };
+  return Array.from(records.values())
+    .map(({ openUntilMs, consecutiveOpens, ...health }) => {
+      // Report an expired cooldown as half-open without waiting for the next call
+      if (health.state === "open" && Date.now() >= openUntilMs) return { ...health, state: "half_open" as const };
+      return health;
+    })
+    .sort((a, b) => order[a.state] - order[b.state] || a.label.localeCompare(b.label) || a.keyId.localeCompare(b.keyId));
+}
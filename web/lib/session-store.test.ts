@@ -0,0 +1,70 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+// The workspace root is fixed when lib/workspace loads, so point it at a scratch directory first
+const workspace = mkdtempSync(join(tmpdir(), "vibe-sessions-"));
+process.env.WORKSPACE_ROOT = workspace;
+
+let store: typeof import("./session-store");
+
+beforeAll(async () => {
+  store = await import("./session-store");
+});
+
+afterAll(() => {
+  rmSync(workspace, { recursive: true, force: true });
+});
+
+async function sessionWithPendingCommand() {
+  const session = await store.createSession();
+  await store.appendEntries(session, [
+    { type: "user", id: "t1-user", content: "run the tests", timestamp: new Date().toISOString() },
+    {
+      type: "assistant",
+      id: "t1",
+      content: "This command requires your approval:",
+      steps: [
+        {
+          text: "",
+          toolCalls: [
+            {
+              id: "call_1",
+              name: "execute_command",
+              args: { command: "npm test", reason: "run tests" },
+              result: { status: "pending", request_id: "req_1", command: "npm test" },
+            },
+          ],
+        },
+        { text: "Waiting for approval.", toolCalls: [] },
+      ],
+      components: [],
+      timestamp: new Date().toISOString(),
+    },
+  ]);
+  return session;
+}
+
+describe("updateApprovalResult", () => {
+  it("replace the result of the call that opened the request", async () => {
+    const session = await sessionWithPendingCommand();
+    const updated = store.updateApprovalResult(session, "req_1", (pending) => ({ ...pending, status: "denied" }));
+    expect(updated).toBe(true);
+
+    const history = store.toHistory(session);
+    const tool = history.find((m) => m.role === "tool");
+    expect(tool).toEqual({
+      role: "tool",
+      results: [{ id: "call_1", name: "execute_command", result: { status: "denied", request_id: "req_1", command: "npm test" } }],
+    });
+    expect(history.filter((m) => m.role === "user")).toEqual([{ role: "user", content: "run the tests" }]);
+  });
+
+  it("leave the session alone when no call made the request", async () => {
+    const session = await sessionWithPendingCommand();
+    expect(store.updateApprovalResult(session, "req_other", () => ({ status: "denied" }))).toBe(false);
+    const tool = store.toHistory(session).find((m) => m.role === "tool");
+    expect(tool && "results" in tool && tool.results[0].result.status).toBe("pending");
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Conversation Sessions
+ *
+ * Server-side transcripts, one JSON file per session under
+ * `<workspace>/.vibe/sessions/`. Each assistant entry keeps the model's
+ * per-step text and tool calls (with results) alongside the rendered
+ * components, so a resumed session can rebuild full provider history and
+ * the UI can redraw exactly what was shown.
+ */
+
+import { mkdir, readFile, readdir, rename, unlink, writeFile } from "fs/promises";
+import { join } from "path";
+import crypto from "crypto";
+import { WORKSPACE_ROOT_REAL } from "./workspace";
+import { ignoreInGit } from "./workspace-ignore";
+import type { FunctionCallRequest, HistoryMessage } from "./ai-providers";
+import { mergeReports, type UsageReport } from "./usage";
+
+const SESSIONS_DIR = join(WORKSPACE_ROOT_REAL, ".vibe", "sessions");
+const SESSION_ID_PATTERN = /^ses_[a-f0-9]{16}$/;
+const TITLE_MAX_CHARS = 60;
+
+export interface SessionComponent {
+  type: string;
+  props: Record<string, any>;
+}
+
+export interface SessionToolCall extends FunctionCallRequest {
+  result: any;
+}
+
+/** One model response inside a turn: its text and the tools it called. */
+export interface SessionStep {
+  text: string;
+  toolCalls: SessionToolCall[];
+}
+
+export type SessionEntry =
+  | {
+      type: "user";
+      id: string;
+      content: string;
+      /** Extra context sent to the model with this message (e.g. denials of requests from other sessions). */
+      notes?: string[];
+      timestamp: string;
+    }
+  | {
+      type: "assistant";
+      id: string;
+      content: string;
+      steps: SessionStep[];
+      components: SessionComponent[];
+      provider?: string;
+      /** Tokens and cost of every provider call made for this turn. */
+      usage?: UsageReport;
+      timestamp: string;
+    };
+
+export interface Session {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  entries: SessionEntry[];
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+const cache = new Map<string, Session>();
+
+function sessionPath(id: string): string {
+  return join(SESSIONS_DIR, `${id}.json`);
+}
+
+export function isSessionId(id: unknown): id is string {
+  return typeof id === "string" && SESSION_ID_PATTERN.test(id);
+}
+
+export async function createSession(): Promise<Session> {
+  const now = new Date().toISOString();
+  const session: Session = {
+    id: `ses_${crypto.randomBytes(8).toString("hex")}`,
+    title: "New conversation",
+    createdAt: now,
+    updatedAt: now,
+    entries: [],
+  };
+  await saveSession(session);
+  return session;
+}
+
+export async function getSession(id: string): Promise<Session | null> {
+  if (!isSessionId(id)) return null;
+  const cached = cache.get(id);
+  if (cached) return cached;
+  try {
+    const session = JSON.parse(await readFile(sessionPath(id), "utf-8")) as Session;
+    cache.set(id, session);
+    return session;
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+async function saveSession(session: Session) {
+  cache.set(session.id, session);
+  await mkdir(SESSIONS_DIR, { recursive: true });
+  await ignoreInGit("sessions/");
+  // Write-then-rename so a crash never leaves a half-written transcript
+  const tmp = `${sessionPath(session.id)}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(session), "utf-8");
+  await rename(tmp, sessionPath(session.id));
+}
+
+export async function appendEntries(session: Session, entries: SessionEntry[]) {
+  session.entries.push(...entries);
+  session.updatedAt = new Date().toISOString();
+  if (session.title === "New conversation") {
+    const firstUser = session.entries.find((e) => e.type === "user");
+    if (firstUser) {
+      const text = firstUser.content.replace(/\s+/g, " ").trim();
+      session.title = text.length > TITLE_MAX_CHARS ? `${text.slice(0, TITLE_MAX_CHARS - 1)}…` : text;
+    }
+  }
+  await saveSession(session);
+}
+
+export async function deleteSession(id: string): Promise<boolean> {
+  if (!isSessionId(id)) return false;
+  cache.delete(id);
+  try {
+    await unlink(sessionPath(id));
+    return true;
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return false;
+    throw err;
+  }
+}
+
+/** All sessions, most recently updated first. */
+export async function listSessions(): Promise<SessionSummary[]> {
+  let files: string[];
+  try {
+    files = await readdir(SESSIONS_DIR);
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return [];
+    throw err;
+  }
+  const summaries: SessionSummary[] = [];
+  for (const file of files) {
+    const id = file.replace(/\.json$/, "");
+    if (!file.endsWith(".json") || !isSessionId(id)) continue;
+    try {
+      const session = await getSession(id);
+      if (!session) continue;
+      summaries.push({
+        id: session.id,
+        title: session.title,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        messageCount: session.entries.length,
+      });
+    } catch {
+      // Skip unreadable session files rather than failing the whole list
+    }
+  }
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Replace the result of the tool call that opened approval `requestId`, so a
+ * decision made after the turn ended reaches the model as that call's result.
+ * Saved with the next `appendEntries`; false when no call made the request.
+ */
+export function updateApprovalResult(session: Session, requestId: string, update: (result: any) => any): boolean {
+  for (const entry of session.entries) {
+    if (entry.type !== "assistant") continue;
+    for (const step of entry.steps) {
+      const call = step.toolCalls.find((c) => c.result?.request_id === requestId);
+      if (call) {
+        call.result = update(call.result);
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/** Request ids of approval tool calls whose results are still pending. */
+export function pendingApprovalIds(session: Session): string[] {
+  const ids: string[] = [];
+  for (const entry of session.entries) {
+    if (entry.type !== "assistant") continue;
+    for (const step of entry.steps) {
+      for (const call of step.toolCalls) {
+        if (call.result?.status === "pending" && typeof call.result.request_id === "string") ids.push(call.result.request_id);
+      }
+    }
+  }
+  return ids;
+}
+
+/** Token and cost totals across every turn of a session. */
+export function sessionUsage(session: Session): UsageReport {
+  return mergeReports(session.entries.map((e) => (e.type === "assistant" ? e.usage : undefined)));
+}
+
+/** Rebuild provider-agnostic chat history, including tool calls and results. */
+export function toHistory(session: Session): HistoryMessage[] {
+  const history: HistoryMessage[] = [];
+  for (const entry of session.entries) {
+    if (entry.type === "user") {
+      history.push({ role: "user", content: [...(entry.notes || []), entry.content].join("\n\n") });
+      continue;
+    }
+    if (entry.steps.length === 0) {
+      // Turns that failed before the model answered still show the user what happened
+      if (entry.content) history.push({ role: "assistant", content: entry.content });
+      continue;
+    }
+    entry.steps.forEach((step, i) => {
+      // An assistant message with neither text nor calls is rejected by OpenAI-style APIs
+      if (!step.text && step.toolCalls.length === 0) return;
+      // Sessions saved before calls carried ids get stable ones derived from their position
+      const calls = step.toolCalls.map((call, j) => ({ ...call, id: call.id || `call_${entry.id}_${i}_${j}` }));
+      history.push({ role: "assistant", content: step.text, functionCalls: calls.map(({ id, name, args }) => ({ id, name, args })) });
+      if (calls.length) {
+        history.push({ role: "tool", results: calls.map(({ id, name, result }) => ({ id, name, result })) });
+      }
+    });
+  }
+  return history;
+}
@@ -0,0 +1,125 @@
+/**
+ * Tool Schemas
+ *
+ * Tool parameters are declared as Zod objects, like the UI component schemas.
+ * `defineTool` derives the JSON Schema the providers are sent (arrays, enums,
+ * nested objects, bounds, defaults) and keeps the Zod schema so the agent can
+ * validate a call's arguments before running the tool. Each provider adapter
+ * translates `JsonSchema` into its own dialect.
+ */
+
+import { z } from "zod";
+import type { ToolDef } from "./ai-providers";
+
+export type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "array" | "object";
+
+/** The JSON Schema subset every provider understands. */
+export interface JsonSchema {
+  type: JsonSchemaType;
+  description?: string;
+  enum?: Array<string | number | boolean>;
+  default?: unknown;
+  /** string */
+  minLength?: number;
+  maxLength?: number;
+  /** number / integer */
+  minimum?: number;
+  maximum?: number;
+  /** array */
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  /** object */
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+export interface JsonObjectSchema extends JsonSchema {
+  type: "object";
+  properties: Record<string, JsonSchema>;
+  required: string[];
+}
+
+/** Convert a Zod schema to JSON Schema; throws on types tools can't express. */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const described = (json: JsonSchema): JsonSchema =>
+    schema.description && !json.description ? { ...json, description: schema.description } : json;
+  const def = schema._def;
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return described(zodToJsonSchema(schema.unwrap()));
+  }
+  if (schema instanceof z.ZodDefault) {
+    return described({ ...zodToJsonSchema(def.innerType), default: def.defaultValue() });
+  }
+  if (schema instanceof z.ZodEffects) {
+    return described(zodToJsonSchema(schema.innerType()));
+  }
+  if (schema instanceof z.ZodString) {
+    const json: JsonSchema = { type: "string" };
+    if (schema.minLength !== null) json.minLength = schema.minLength;
+    if (schema.maxLength !== null) json.maxLength = schema.maxLength;
+    return described(json);
+  }
+  if (schema instanceof z.ZodNumber) {
+    const json: JsonSchema = { type: schema.isInt ? "integer" : "number" };
+    if (schema.minValue !== null) json.minimum = schema.minValue;
+    if (schema.maxValue !== null) json.maximum = schema.maxValue;
+    return described(json);
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return described({ type: "boolean" });
+  }
+  if (schema instanceof z.ZodEnum) {
+    return described({ type: "string", enum: [...schema.options] });
+  }
+  if (schema instanceof z.ZodLiteral) {
+    const value = schema.value;
+    if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+      throw new Error(`Unsupported literal in tool schema: ${String(value)}`);
+    }
+    return described({ type: typeof value as JsonSchemaType, enum: [value] });
+  }
+  if (schema instanceof z.ZodArray) {
+    const json: JsonSchema = { type: "array", items: zodToJsonSchema(schema.element) };
+    if (def.minLength) json.minItems = def.minLength.value;
+    if (def.maxLength) json.maxItems = def.maxLength.value;
+    return described(json);
+  }
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) required.push(key);
+    }
+    return described({ type: "object", properties, required, additionalProperties: false });
+  }
+  throw new Error(`Unsupported Zod type in tool schema: ${def?.typeName ?? "unknown"}`);
+}
+
+/** A tool whose parameters are declared (and validated) with Zod. */
+export function defineTool(name: string, description: string, schema: z.ZodObject<z.ZodRawShape>): ToolDef {
+  return {
+    name,
+    description,
+    parameters: zodToJsonSchema(schema) as JsonObjectSchema,
+    schema,
+  };
+}
+
+/**
+ * Check a call's arguments against the tool's schema. Returns the parsed
+ * arguments (with defaults applied) or an error message for the model.
+ */
+export function validateToolArgs(
+  tool: ToolDef,
+  args: unknown
+): { ok: true; args: Record<string, any> } | { ok: false; error: string } {
+  if (!tool.schema) return { ok: true, args: (args ?? {}) as Record<string, any> };
+  const parsed = tool.schema.safeParse(args ?? {});
+  if (parsed.success) return { ok: true, args: parsed.data };
+  const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(arguments)"}: ${i.message}`).join("; ");
+  return { ok: false, error: `Invalid arguments for ${tool.name}: ${issues}` };
+}
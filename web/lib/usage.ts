@@ -0,0 +1,112 @@
+/**
+ * Token Usage & Cost
+ *
+ * Normalised token counts reported by each provider turn, a price table keyed
+ * by the chat `label` (`provider/model`), and helpers to total them per
+ * request, per session and per provider. Prices declared for custom providers
+ * in the provider config take precedence over the built-in table.
+ */
+
+import { customModelPrices } from "./provider-config";
+
+export interface TokenUsage {
+  /** Prompt tokens billed at the full input rate. */
+  inputTokens: number;
+  outputTokens: number;
+  /** Prompt tokens served from the provider's prompt cache. */
+  cachedTokens: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  /** Cost of the priced turns in USD. */
+  costUsd: number;
+  turns: number;
+  /** Turns whose model has no price entry (excluded from `costUsd`). */
+  unpricedTurns: number;
+}
+
+export interface UsageReport extends UsageTotals {
+  byProvider: Record<string, UsageTotals>;
+}
+
+/** USD per million tokens. */
+interface ModelPrice {
+  input: number;
+  cachedInput: number;
+  output: number;
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "openai/gpt-4o": { input: 2.5, cachedInput: 1.25, output: 10 },
+  "openai/gpt-4o-mini": { input: 0.15, cachedInput: 0.075, output: 0.6 },
+  "anthropic/claude-sonnet-4-20250514": { input: 3, cachedInput: 0.3, output: 15 },
+  "anthropic/claude-3-5-haiku-20241022": { input: 0.8, cachedInput: 0.08, output: 4 },
+  "gemini/gemini-2.0-flash": { input: 0.1, cachedInput: 0.025, output: 0.4 },
+  "gemini/gemini-1.5-flash": { input: 0.075, cachedInput: 0.01875, output: 0.3 },
+  "deepseek/deepseek-chat": { input: 0.27, cachedInput: 0.07, output: 1.1 },
+  "deepseek/deepseek-reasoner": { input: 0.55, cachedInput: 0.14, output: 2.19 },
+  "moonshot/moonshot-v1-128k": { input: 8.4, cachedInput: 8.4, output: 8.4 },
+  "moonshot/moonshot-v1-32k": { input: 3.4, cachedInput: 3.4, output: 3.4 },
+  "alibaba/qwen-turbo": { input: 0.05, cachedInput: 0.05, output: 0.2 },
+  "alibaba/qwen-plus": { input: 0.4, cachedInput: 0.4, output: 1.2 },
+  "mistral/mistral-large-latest": { input: 2, cachedInput: 2, output: 6 },
+  "mistral/mistral-small-latest": { input: 0.1, cachedInput: 0.1, output: 0.3 },
+  "grok/grok-3-mini-fast": { input: 0.6, cachedInput: 0.15, output: 4 },
+  "grok/grok-3-mini": { input: 0.3, cachedInput: 0.075, output: 0.5 },
+};
+
+/** Cost of one turn in USD, or null when the model is not in the price table. */
+export function estimateCost(label: string, usage: TokenUsage): number | null {
+  let price: ModelPrice | undefined;
+  try {
+    price = customModelPrices()[label] ?? MODEL_PRICES[label];
+  } catch {
+    // An invalid config already fails provider selection; don't fail accounting too
+    price = MODEL_PRICES[label];
+  }
+  if (!price) return null;
+  return (
+    (usage.inputTokens * price.input + usage.cachedTokens * price.cachedInput + usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+function emptyTotals(): UsageTotals {
+  return { inputTokens: 0, outputTokens: 0, cachedTokens: 0, costUsd: 0, turns: 0, unpricedTurns: 0 };
+}
+
+export function emptyReport(): UsageReport {
+  return { ...emptyTotals(), byProvider: {} };
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals) {
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.cachedTokens += source.cachedTokens;
+  target.costUsd += source.costUsd;
+  target.turns += source.turns;
+  target.unpricedTurns += source.unpricedTurns;
+}
+
+/** Add one provider turn to a report (mutates and returns `report`). */
+export function recordUsage(report: UsageReport, label: string, usage: TokenUsage | undefined): UsageReport {
+  if (!usage) return report;
+  const cost = estimateCost(label, usage);
+  const turn: UsageTotals = { ...usage, costUsd: cost ?? 0, turns: 1, unpricedTurns: cost === null ? 1 : 0 };
+  addTotals(report, turn);
+  addTotals((report.byProvider[label] ??= emptyTotals()), turn);
+  return report;
+}
+
+/** Sum several reports into a new one. */
+export function mergeReports(reports: Array<UsageReport | undefined>): UsageReport {
+  const merged = emptyReport();
+  for (const report of reports) {
+    if (!report) continue;
+    addTotals(merged, report);
+    for (const [label, totals] of Object.entries(report.byProvider)) {
+      addTotals((merged.byProvider[label] ??= emptyTotals()), totals);
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,37 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync, mkdirSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+const workspace = mkdtempSync(join(tmpdir(), "vibe-ignore-"));
+process.env.WORKSPACE_ROOT = workspace;
+
+let ignore: typeof import("./workspace-ignore");
+
+beforeAll(async () => {
+  ignore = await import("./workspace-ignore");
+});
+
+afterAll(() => {
+  rmSync(workspace, { recursive: true, force: true });
+});
+
+describe("default ignores", () => {
+  it("hide app state under .vibe", async () => {
+    const context = await ignore.ignoreContextFor(".");
+    expect(ignore.isIgnored(context, ".vibe", true)).toBe(true);
+    expect(ignore.isIgnored(context, "node_modules", true)).toBe(true);
+    expect(ignore.isIgnored(context, "src", true)).toBe(false);
+  });
+});
+
+describe("ignoreInGit", () => {
+  it("adds each entry to .vibe/.gitignore once and keeps existing lines", async () => {
+    mkdirSync(join(workspace, ".vibe"), { recursive: true });
+    writeFileSync(join(workspace, ".vibe", ".gitignore"), "local.json");
+    await ignore.ignoreInGit("sessions/");
+    await ignore.ignoreInGit("sessions/");
+    await ignore.ignoreInGit("audit.jsonl");
+    expect(readFileSync(join(workspace, ".vibe", ".gitignore"), "utf-8")).toBe("local.json\nsessions/\naudit.jsonl\n");
+  });
+});
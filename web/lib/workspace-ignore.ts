@@ -0,0 +1,150 @@
+/**
+ * Workspace Ignore Rules
+ *
+ * Which workspace entries the listing and code search skip: a short built-in
+ * list (VCS metadata, dependencies, build output), every `.gitignore` from the
+ * workspace root down to the directory being walked, and `.vibe/ignore`, which
+ * is applied last so it can re-include anything with `!pattern`. All files use
+ * gitignore syntax; as in git, the last matching rule wins. `.vibe/` itself is
+ * ignored: it holds sessions and the audit log, which repeat file contents.
+ */
+
+import { appendFile, mkdir, readFile } from "fs/promises";
+import { join } from "path";
+import { WORKSPACE_ROOT_REAL } from "./workspace";
+
+const DEFAULT_IGNORES = [".git/", ".vibe/", "node_modules/", ".next/", "dist/", "build/", "coverage/", ".DS_Store"];
+const VIBE_DIR = join(WORKSPACE_ROOT_REAL, ".vibe");
+const VIBE_IGNORE_PATH = join(VIBE_DIR, "ignore");
+const VIBE_GITIGNORE_PATH = join(VIBE_DIR, ".gitignore");
+
+interface IgnoreRule {
+  regexp: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+  /** Rules without a slash match the entry name at any depth below `base`. */
+  matchName: boolean;
+  /** Workspace-relative directory of the file that declared the rule ("" for the root). */
+  base: string;
+}
+
+/** Rules in effect for one directory of a walk. */
+export interface IgnoreContext {
+  rules: IgnoreRule[];
+  overrides: IgnoreRule[];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** `**` spans directories, `*` and `?` stay within one segment, `[...]` and `{a,b}` are classes and alternatives. */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      const slash = glob[i + 2] === "/";
+      pattern += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else if (char === "[" && glob.indexOf("]", i + 2) !== -1) {
+      const end = glob.indexOf("]", i + 2);
+      const body = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+      pattern += body.startsWith("!") ? `[^${body.slice(1)}]` : `[${body}]`;
+      i = end;
+    } else if (char === "{" && glob.indexOf("}", i) !== -1) {
+      const end = glob.indexOf("}", i);
+      pattern += `(?:${glob.slice(i + 1, end).split(",").map(escapeRegExp).join("|")})`;
+      i = end;
+    } else {
+      pattern += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+function parseIgnoreFile(text: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    let line = raw.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+    const negate = line.startsWith("!");
+    if (negate) line = line.slice(1);
+    if (line.startsWith("\\")) line = line.slice(1);
+    const directoryOnly = line.endsWith("/");
+    if (directoryOnly) line = line.slice(0, -1);
+    if (!line) continue;
+    const matchName = !line.includes("/");
+    rules.push({ regexp: globToRegExp(line.replace(/^\//, "")), negate, directoryOnly, matchName, base });
+  }
+  return rules;
+}
+
+async function readIgnoreFile(path: string, base: string): Promise<IgnoreRule[]> {
+  try {
+    return parseIgnoreFile(await readFile(path, "utf-8"), base);
+  } catch {
+    return [];
+  }
+}
+
+/** Rules for a walk starting at `relativeDir` (workspace-relative, "" or "." for the root). */
+export async function ignoreContextFor(relativeDir: string): Promise<IgnoreContext> {
+  const segments = relativeDir === "." ? [] : relativeDir.split(/[/\\]+/).filter(Boolean);
+  const rules = parseIgnoreFile(DEFAULT_IGNORES.join("\n"), "");
+  for (let i = 0; i <= segments.length; i++) {
+    const base = segments.slice(0, i).join("/");
+    rules.push(...(await readIgnoreFile(join(WORKSPACE_ROOT_REAL, base, ".gitignore"), base)));
+  }
+  return { rules, overrides: await readIgnoreFile(VIBE_IGNORE_PATH, "") };
+}
+
+/** The context for a subdirectory: the parent's rules plus the subdirectory's own `.gitignore`. */
+export async function descendIgnoreContext(
+  context: IgnoreContext,
+  absoluteDir: string,
+  relativeDir: string
+): Promise<IgnoreContext> {
+  const own = await readIgnoreFile(join(absoluteDir, ".gitignore"), relativeDir);
+  return own.length ? { ...context, rules: [...context.rules, ...own] } : context;
+}
+
+// Entries already known to be in .vibe/.gitignore
+const gitIgnored = new Set<string>();
+
+/**
+ * Keep state the app writes under `.vibe` (e.g. `sessions/`, `audit.jsonl`)
+ * out of the user's git status by listing it in `.vibe/.gitignore`, next to
+ * config like policy.json that is meant to be committed.
+ */
+export async function ignoreInGit(entry: string): Promise<void> {
+  if (gitIgnored.has(entry)) return;
+  let existing = "";
+  try {
+    existing = await readFile(VIBE_GITIGNORE_PATH, "utf-8");
+  } catch {
+    // Not created yet
+  }
+  if (!existing.split(/\r?\n/).includes(entry)) {
+    await mkdir(VIBE_DIR, { recursive: true });
+    await appendFile(VIBE_GITIGNORE_PATH, `${existing && !existing.endsWith("\n") ? "\n" : ""}${entry}\n`, "utf-8");
+  }
+  gitIgnored.add(entry);
+}
+
+/** Whether a workspace-relative path (`/`-separated) is ignored. */
+export function isIgnored(context: IgnoreContext, relativePath: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  for (const rule of [...context.rules, ...context.overrides]) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.base && !relativePath.startsWith(`${rule.base}/`)) continue;
+    const path = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+    const subject = rule.matchName ? path.slice(path.lastIndexOf("/") + 1) : path;
+    if (rule.regexp.test(subject)) ignored = !rule.negate;
+  }
+  return ignored;
+}
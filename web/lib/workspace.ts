@@ -0,0 +1,130 @@
+/**
+ * Workspace Confinement
+ *
+ * Single source of truth for the workspace root and for turning untrusted
+ * paths (from the model or the browser) into real paths inside it. Every
+ * filesystem and execution path goes through these helpers.
+ */
+
+import { basename, dirname, join, resolve, isAbsolute, normalize, relative } from "path";
+import { realpathSync, existsSync, lstatSync } from "fs";
+
+function detectWorkspaceRoot(): string {
+  const override = process.env.WORKSPACE_ROOT;
+  if (override && override.trim()) return resolve(override);
+  const cwd = process.cwd();
+  if (process.env.NODE_ENV !== "production" && basename(cwd) === "web") {
+    return resolve(cwd, "..");
+  }
+  return cwd;
+}
+
+const DEFAULT_WORKSPACE = detectWorkspaceRoot();
+
+// On Vercel / serverless, the workspace may not exist. Detect this gracefully.
+export const WORKSPACE_EXISTS = existsSync(DEFAULT_WORKSPACE);
+export const WORKSPACE_ROOT_REAL = WORKSPACE_EXISTS
+  ? normalize(realpathSync(resolve(DEFAULT_WORKSPACE)))
+  : normalize(resolve(DEFAULT_WORKSPACE));
+
+console.log(`[workspace] Workspace root: ${DEFAULT_WORKSPACE} (exists: ${WORKSPACE_EXISTS})`);
+
+export function isOutsideWorkspace(absolutePath: string): boolean {
+  const rel = relative(WORKSPACE_ROOT_REAL, normalize(absolutePath));
+  if (!rel) return false;
+  if (isAbsolute(rel)) return true;
+  const normalized = rel.replace(/\\/g, "/");
+  return normalized === ".." || normalized.startsWith("../");
+}
+
+export function toWorkspaceRelativePath(absolutePath: string): string {
+  return relative(WORKSPACE_ROOT_REAL, absolutePath) || ".";
+}
+
+export function resolveWorkspacePath(
+  maybePath: unknown,
+  { allowDefaultRoot = true }: { allowDefaultRoot?: boolean } = {}
+): string {
+  if (typeof maybePath !== "string" || !maybePath.trim()) {
+    if (!allowDefaultRoot) throw new Error("A non-empty workspace-relative path is required.");
+    return WORKSPACE_ROOT_REAL;
+  }
+  const inputPath = maybePath.trim();
+  if (inputPath === "." || inputPath === "./" || inputPath === ".\\") {
+    if (!allowDefaultRoot) throw new Error("A non-empty workspace-relative path is required.");
+    return WORKSPACE_ROOT_REAL;
+  }
+  const segments = inputPath.split(/[/\\]+/);
+  if (segments.includes("..")) {
+    throw new Error("Parent directory references (..) are not allowed in workspace-relative paths.");
+  }
+  if (isAbsolute(inputPath)) {
+    throw new Error("Absolute paths are not allowed. Use a path relative to the workspace root instead.");
+  }
+  const candidate = resolve(WORKSPACE_ROOT_REAL, inputPath);
+  if (isOutsideWorkspace(candidate)) {
+    throw new Error(`Path "${inputPath}" is outside the workspace root.`);
+  }
+  let resolvedPath: string;
+  try {
+    resolvedPath = realpathSync(candidate);
+  } catch (err: any) {
+    if (err?.code === "ENOENT") throw new Error(`Path "${inputPath}" does not exist inside the workspace.`);
+    throw err;
+  }
+  if (isOutsideWorkspace(resolvedPath)) {
+    throw new Error(`Path "${inputPath}" resolves outside the workspace root (possible symlink escape).`);
+  }
+  return resolvedPath;
+}
+
+/**
+ * Like `resolveWorkspacePath`, but for write targets: the file itself may not
+ * exist yet, only its parent directory must.
+ */
+export function resolveWorkspaceWritePath(maybePath: unknown): string {
+  if (typeof maybePath !== "string" || !maybePath.trim()) {
+    throw new Error("A non-empty workspace-relative path is required.");
+  }
+  const inputPath = maybePath.trim().replace(/[/\\]+$/, "");
+  const name = basename(inputPath);
+  if (!name || name === "." || name === "..") {
+    throw new Error(`"${inputPath}" is not a file path.`);
+  }
+  const parent = resolveWorkspacePath(dirname(inputPath));
+  const target = join(parent, name);
+  // Anything already there (including dangling symlinks) goes through the full realpath check
+  let present = true;
+  try {
+    lstatSync(target);
+  } catch {
+    present = false;
+  }
+  return present ? resolveWorkspacePath(toWorkspaceRelativePath(target), { allowDefaultRoot: false }) : target;
+}
+
+/**
+ * Canonicalise an absolute path that is about to be used as a working
+ * directory or file target, rejecting anything that resolves (including via
+ * symlinks) outside the workspace root. Used by the execution layer as a
+ * second line of defence behind `resolveWorkspacePath`.
+ */
+export function assertWithinWorkspace(absolutePath: string): string {
+  if (!isAbsolute(absolutePath)) {
+    throw new Error(`Expected an absolute path, got "${absolutePath}".`);
+  }
+  if (isOutsideWorkspace(resolve(absolutePath))) {
+    throw new Error(`Path "${absolutePath}" is outside the workspace root.`);
+  }
+  let resolvedPath: string;
+  try {
+    resolvedPath = realpathSync(absolutePath);
+  } catch (err: any) {
+    if (err?.code === "ENOENT") throw new Error(`Path "${absolutePath}" does not exist inside the workspace.`);
+    throw err;
+  }
+  if (isOutsideWorkspace(resolvedPath)) {
+    throw new Error(`Path "${absolutePath}" resolves outside the workspace root (possible symlink escape).`);
+  }
+  return resolvedPath;
+}
@@ -2,7 +2,7 @@
 const nextConfig = {
   // Enable experimental features for better streaming
   experimental: {
-    serverComponentsExternalPackages: ['@modelcontextprotocol/sdk'],
+    serverComponentsExternalPackages: ['@modelcontextprotocol/sdk', 'typescript'],
   },
 };
 
@@ -0,0 +1,312 @@
+#!/usr/bin/env node
+/**
+ * Agent Evaluation Harness
+ *
+ * Runs scenario files against /api/agent with a fixture workspace and reports
+ * pass/fail per scenario and provider label. Use it after changing the system
+ * prompt or tool descriptions to check that models still call the right tools
+ * with the right arguments.
+ *
+ *   npm run eval                                  # every configured provider
+ *   npm run eval -- --providers openai/gpt-4o     # comma-separated labels
+ *   npm run eval -- --filter patch --json
+ *   npm run eval -- --url http://localhost:3000   # use a running server
+ *
+ * Without --url a dev server is started on --port (default 3100) with
+ * WORKSPACE_ROOT set to a fresh copy of evals/fixture, so approvals, sessions
+ * and auto-approved writes never touch the fixture itself. A server given with
+ * --url must already point at such a copy.
+ *
+ * Scenario files (evals/scenarios/*.json):
+ *
+ *   {
+ *     "name": "read_file uses a workspace-relative path",
+ *     "prompt": "Show me the README.",
+ *     "expect": {
+ *       "tool_calls": [{ "name": "read_file", "args": { "path": { "pattern": "^README\\.md$" } } }],
+ *       "ordered": false,
+ *       "forbidden_calls": [{ "name": "execute_command" }],
+ *       "components": ["code_panel"],
+ *       "max_tool_calls": 4,
+ *       "content_pattern": "calc-kit"
+ *     }
+ *   }
+ *
+ * A call matcher has a `name` (or a list of accepted names) and optional
+ * argument constraints: a plain value must be equal, or an object with any of
+ * `equals`, `pattern`, `not_pattern` (regexes) and `present` (true / false).
+ * Every `tool_calls` matcher must match a call the model made (in order when
+ * `ordered`), no call may match a `forbidden_calls` matcher, and every listed
+ * component type must be rendered. `content_pattern` is case-insensitive.
+ */
+
+import { spawn } from "child_process";
+import { cpSync, existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, statSync } from "fs";
+import { tmpdir } from "os";
+import { basename, dirname, join, resolve } from "path";
+import { fileURLToPath } from "url";
+
+const WEB_DIR = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const FIXTURE_DIR = join(WEB_DIR, "evals", "fixture");
+const DEFAULT_SCENARIOS = join(WEB_DIR, "evals", "scenarios");
+const SERVER_START_TIMEOUT_MS = 180_000;
+const TURN_TIMEOUT_MS = 180_000;
+
+// ============================================
+// ARGUMENTS
+// ============================================
+
+function parseArgs(argv) {
+  const options = { scenarios: DEFAULT_SCENARIOS, providers: null, url: null, port: 3100, filter: null, json: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) throw new Error(`${arg} needs a value`);
+      return argv[++i];
+    };
+    if (arg === "--scenarios") options.scenarios = resolve(value());
+    else if (arg === "--providers") options.providers = value().split(",").map((s) => s.trim()).filter(Boolean);
+    else if (arg === "--url") options.url = value().replace(/\/$/, "");
+    else if (arg === "--port") options.port = Number(value());
+    else if (arg === "--filter") options.filter = value();
+    else if (arg === "--json") options.json = true;
+    else throw new Error(`Unknown option: ${arg}`);
+  }
+  return options;
+}
+
+// ============================================
+// SCENARIOS
+// ============================================
+
+function loadScenarios(path, filter) {
+  const files = statSync(path).isDirectory()
+    ? readdirSync(path)
+        .filter((f) => f.endsWith(".json"))
+        .sort()
+        .map((f) => join(path, f))
+    : [path];
+  const scenarios = files.map((file) => {
+    let scenario;
+    try {
+      scenario = JSON.parse(readFileSync(file, "utf-8"));
+    } catch (err) {
+      throw new Error(`Invalid scenario ${file}: ${err.message}`);
+    }
+    if (typeof scenario.prompt !== "string" || !scenario.prompt.trim()) {
+      throw new Error(`Invalid scenario ${file}: "prompt" is required`);
+    }
+    return { id: basename(file, ".json"), name: scenario.name || basename(file, ".json"), ...scenario };
+  });
+  return filter ? scenarios.filter((s) => s.id.includes(filter) || s.name.includes(filter)) : scenarios;
+}
+
+function matchesConstraint(value, constraint) {
+  if (constraint === null || typeof constraint !== "object") return value === constraint;
+  if ("present" in constraint && (value !== undefined && value !== null && value !== "") !== constraint.present) {
+    return false;
+  }
+  if (value === undefined) return constraint.present === false || !("equals" in constraint || "pattern" in constraint);
+  if ("equals" in constraint && JSON.stringify(value) !== JSON.stringify(constraint.equals)) return false;
+  if ("pattern" in constraint && !new RegExp(constraint.pattern).test(String(value))) return false;
+  if ("not_pattern" in constraint && new RegExp(constraint.not_pattern).test(String(value))) return false;
+  return true;
+}
+
+function matchesCall(call, matcher) {
+  const names = Array.isArray(matcher.name) ? matcher.name : [matcher.name];
+  if (!names.includes(call.name)) return false;
+  return Object.entries(matcher.args || {}).every(([key, constraint]) => matchesConstraint(call.args?.[key], constraint));
+}
+
+function describeMatcher(matcher) {
+  const names = Array.isArray(matcher.name) ? matcher.name.join("|") : matcher.name;
+  return matcher.args ? `${names} ${JSON.stringify(matcher.args)}` : names;
+}
+
+function describeCall(call) {
+  return `${call.name}(${JSON.stringify(call.args)})`;
+}
+
+/** Check one turn against a scenario's expectations; returns failure reasons. */
+function evaluate(scenario, turn) {
+  const expect = scenario.expect || {};
+  const failures = [];
+  const calls = turn.toolCalls;
+
+  let from = 0;
+  for (const matcher of expect.tool_calls || []) {
+    const index = calls.findIndex((call, i) => (!expect.ordered || i >= from) && matchesCall(call, matcher));
+    if (index === -1) {
+      failures.push(`expected call ${describeMatcher(matcher)}${expect.ordered && from > 0 ? " (after the previous match)" : ""}`);
+    } else {
+      from = index + 1;
+    }
+  }
+  for (const matcher of expect.forbidden_calls || []) {
+    const call = calls.find((c) => matchesCall(c, matcher));
+    if (call) failures.push(`forbidden call ${describeCall(call)}`);
+  }
+  if (typeof expect.max_tool_calls === "number" && calls.length > expect.max_tool_calls) {
+    failures.push(`made ${calls.length} tool calls (max ${expect.max_tool_calls})`);
+  }
+  const rendered = new Set(turn.components.map((c) => c.type));
+  for (const type of expect.components || []) {
+    if (!rendered.has(type)) failures.push(`expected component ${type}`);
+  }
+  if (expect.content_pattern && !new RegExp(expect.content_pattern, "i").test(turn.content)) {
+    failures.push(`reply does not match /${expect.content_pattern}/i`);
+  }
+  if (turn.provider !== turn.requestedProvider) {
+    failures.push(`answered by ${turn.provider} instead of ${turn.requestedProvider}`);
+  }
+  return failures;
+}
+
+// ============================================
+// AGENT API
+// ============================================
+
+async function api(baseUrl, path, init = {}) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...(init.headers || {}) },
+    signal: AbortSignal.timeout(TURN_TIMEOUT_MS),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `${path} returned HTTP ${response.status}`);
+  return data;
+}
+
+/** Run one prompt pinned to `label` (no fallback) and collect what the model did. */
+async function runTurn(baseUrl, prompt, label) {
+  const started = Date.now();
+  const reply = await api(baseUrl, "/api/agent", {
+    method: "POST",
+    body: JSON.stringify({ message: prompt, provider: label, fallback: [label] }),
+  });
+  try {
+    const session = await api(baseUrl, `/api/sessions/${reply.session_id}`);
+    const entry = session.entries.filter((e) => e.type === "assistant").pop();
+    return {
+      requestedProvider: label,
+      provider: reply.provider,
+      content: reply.content || "",
+      components: reply.components || [],
+      toolCalls: (entry?.steps || []).flatMap((step) => step.toolCalls),
+      latencyMs: Date.now() - started,
+      costUsd: reply.usage?.request?.costUsd ?? 0,
+    };
+  } finally {
+    await api(baseUrl, `/api/sessions/${reply.session_id}`, { method: "DELETE" }).catch(() => {});
+  }
+}
+
+async function waitForServer(baseUrl, server) {
+  const deadline = Date.now() + SERVER_START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (server.exitCode !== null) throw new Error(`Dev server exited with code ${server.exitCode}`);
+    try {
+      // The first request also compiles the route
+      const response = await fetch(`${baseUrl}/api/providers`, { signal: AbortSignal.timeout(60_000) });
+      if (response.ok) {
+        // Compile the other routes now: a recompile mid-run reloads server modules and resets their state
+        for (const path of ["/api/agent", "/api/sessions/ses_0000000000000000"]) {
+          await fetch(`${baseUrl}${path}`, { signal: AbortSignal.timeout(60_000) }).catch(() => {});
+        }
+        return;
+      }
+    } catch {
+      /* not up yet */
+    }
+    await new Promise((r) => setTimeout(r, 1000));
+  }
+  throw new Error(`Dev server did not start within ${SERVER_START_TIMEOUT_MS / 1000}s`);
+}
+
+function startServer(port) {
+  if (!existsSync(FIXTURE_DIR)) throw new Error(`Fixture workspace not found: ${FIXTURE_DIR}`);
+  const workspace = mkdtempSync(join(tmpdir(), "vibe-eval-"));
+  cpSync(FIXTURE_DIR, workspace, { recursive: true });
+  const server = spawn(process.execPath, [join(WEB_DIR, "node_modules", "next", "dist", "bin", "next"), "dev", "-p", String(port)], {
+    cwd: WEB_DIR,
+    env: { ...process.env, WORKSPACE_ROOT: workspace },
+    stdio: ["ignore", "ignore", "inherit"],
+  });
+  const stop = () => {
+    if (server.exitCode === null) server.kill();
+    rmSync(workspace, { recursive: true, force: true });
+  };
+  return { server, stop };
+}
+
+// ============================================
+// MAIN
+// ============================================
+
+function printReport(results, labels) {
+  for (const r of results) {
+    const status = r.failures.length ? "✗" : "✓";
+    const timing = r.turn ? ` ${(r.turn.latencyMs / 1000).toFixed(1)}s` : "";
+    console.log(`${status} [${r.label}] ${r.scenario}${timing}`);
+    for (const failure of r.failures) console.log(`    - ${failure}`);
+    if (r.failures.length && r.turn) {
+      console.log(`    calls: ${r.turn.toolCalls.map(describeCall).join(", ") || "none"}`);
+    }
+  }
+  console.log("");
+  for (const label of labels) {
+    const own = results.filter((r) => r.label === label);
+    const passed = own.filter((r) => r.failures.length === 0).length;
+    const cost = own.reduce((sum, r) => sum + (r.turn?.costUsd || 0), 0);
+    console.log(`${label}: ${passed}/${own.length} passed ($${cost.toFixed(4)})`);
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const scenarios = loadScenarios(options.scenarios, options.filter);
+  if (scenarios.length === 0) throw new Error("No scenarios matched");
+
+  const local = options.url ? null : startServer(options.port);
+  const baseUrl = options.url || `http://localhost:${options.port}`;
+  const onSignal = () => {
+    local?.stop();
+    process.exit(130);
+  };
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+
+  try {
+    if (local) await waitForServer(baseUrl, local.server);
+    const configured = (await api(baseUrl, "/api/providers")).providers.map((p) => p.label);
+    const labels = options.providers || configured;
+    const missing = labels.filter((label) => !configured.includes(label));
+    if (missing.length) throw new Error(`Not configured: ${missing.join(", ")} (available: ${configured.join(", ") || "none"})`);
+    if (labels.length === 0) throw new Error("No providers configured");
+
+    const results = [];
+    for (const label of labels) {
+      for (const scenario of scenarios) {
+        if (!options.json) process.stderr.write(`… [${label}] ${scenario.name}\n`);
+        try {
+          const turn = await runTurn(baseUrl, scenario.prompt, label);
+          results.push({ scenario: scenario.name, id: scenario.id, label, failures: evaluate(scenario, turn), turn });
+        } catch (err) {
+          results.push({ scenario: scenario.name, id: scenario.id, label, failures: [`request failed: ${err.message}`] });
+        }
+      }
+    }
+
+    if (options.json) console.log(JSON.stringify({ results }, null, 2));
+    else printReport(results, labels);
+    process.exitCode = results.some((r) => r.failures.length) ? 1 : 0;
+  } finally {
+    local?.stop();
+  }
+}
+
+main().catch((err) => {
+  console.error(`eval: ${err.message}`);
+  process.exit(2);
+});